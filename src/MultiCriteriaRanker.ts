@@ -0,0 +1,193 @@
+import { Ranker } from "./Ranker";
+import {
+  AggregateRanking,
+  CriterionComparisonResult,
+  CriterionRanker,
+  ItemDetails,
+  ItemMetadata,
+  ItemStats,
+  MultiCriteriaSnapshot,
+  RankableItem,
+  RankerConfig,
+  RankerOptions,
+} from "./types";
+
+function assertWeights(weights: Record<string, number>): void {
+  Object.entries(weights).forEach(([criterion, weight]) => {
+    if (!(Number.isFinite(weight) && weight >= 0)) {
+      throw new Error(
+        `Weight for criterion ${criterion} must be a non-negative number`
+      );
+    }
+  });
+}
+
+export class MultiCriteriaRanker<M extends ItemMetadata = ItemMetadata> {
+  private rankers: Map<string, Ranker<M>>;
+  private weights: Map<string, number>;
+
+  constructor(
+    criteria: Record<string, number>,
+    initialItems: RankableItem<M>[],
+    config: Partial<RankerConfig>,
+    options: RankerOptions = {}
+  ) {
+    if (Object.keys(criteria).length === 0) {
+      throw new Error("At least one criterion is required");
+    }
+    assertWeights(criteria);
+    this.weights = new Map(Object.entries(criteria));
+    this.rankers = new Map(
+      Object.keys(criteria).map((criterion) => [
+        criterion,
+        new Ranker<M>(initialItems, config, options),
+      ])
+    );
+  }
+
+  getCriteria(): string[] {
+    return Array.from(this.rankers.keys());
+  }
+
+  getRanker(criterion: string): CriterionRanker<M> {
+    return this.ranker(criterion);
+  }
+
+  private ranker(criterion: string): Ranker<M> {
+    const ranker = this.rankers.get(criterion);
+    if (!ranker) {
+      throw new Error(`Unknown criterion ${criterion}`);
+    }
+    return ranker;
+  }
+
+  addItem(id: string, initialRating?: number, details?: ItemDetails<M>): void {
+    this.rankers.forEach((ranker) =>
+      ranker.addItem(id, initialRating, details)
+    );
+  }
+
+  removeItem(id: string): void {
+    this.rankers.forEach((ranker) => ranker.removeItem(id));
+  }
+
+  addComparisonResult({
+    criterion,
+    ...result
+  }: CriterionComparisonResult): number {
+    return this.ranker(criterion).addComparisonResult(result);
+  }
+
+  getRankings(criterion: string): ItemStats<M>[] {
+    return this.ranker(criterion).getRankings();
+  }
+
+  // The aggregate rating is the weighted mean of the per-criterion ratings;
+  // weights default to those given to the constructor.
+  getAggregateRankings(
+    weights: Record<string, number> = Object.fromEntries(this.weights)
+  ): AggregateRanking[] {
+    assertWeights(weights);
+    const entries = Object.entries(weights);
+    entries.forEach(([criterion]) => this.ranker(criterion));
+    const totalWeight = entries.reduce((sum, [, weight]) => sum + weight, 0);
+    if (totalWeight <= 0) {
+      throw new Error("Criterion weights must sum to a positive number");
+    }
+
+    const [first] = this.rankers.values();
+    return first
+      .getAllItems()
+      .map((item) => {
+        const ratings: Record<string, number> = {};
+        this.rankers.forEach((ranker, criterion) => {
+          ratings[criterion] = ranker.getItemStats(item.id).currentRating;
+        });
+        return {
+          id: item.id,
+          rating:
+            entries.reduce(
+              (sum, [criterion, weight]) => sum + weight * ratings[criterion],
+              0
+            ) / totalWeight,
+          ratings,
+        };
+      })
+      .sort((a, b) => b.rating - a.rating);
+  }
+
+  // Asks about the criterion that has received the fewest comparisons
+  // relative to its weight, among those that still have a pair to suggest.
+  getNextComparison(
+    criterion?: string
+  ): { criterion: string; pair: [string, string] } | null {
+    const candidates =
+      criterion === undefined
+        ? this.getCriteria()
+            .filter((name) => this.weights.get(name)! > 0)
+            .sort((a, b) => this.workload(a) - this.workload(b))
+        : [criterion];
+
+    for (const name of candidates) {
+      const pair = this.ranker(name).getNextComparison();
+      if (pair) return { criterion: name, pair };
+    }
+    return null;
+  }
+
+  private workload(criterion: string): number {
+    return (
+      this.ranker(criterion).getComparisons().length /
+      this.weights.get(criterion)!
+    );
+  }
+
+  toJSON(): MultiCriteriaSnapshot {
+    const criteria: MultiCriteriaSnapshot["criteria"] = {};
+    this.rankers.forEach((ranker, criterion) => {
+      criteria[criterion] = {
+        weight: this.weights.get(criterion)!,
+        snapshot: ranker.toJSON(),
+      };
+    });
+    return { criteria };
+  }
+
+  static fromJSON<M extends ItemMetadata = ItemMetadata>(
+    data: unknown,
+    options: RankerOptions = {}
+  ): MultiCriteriaRanker<M> {
+    const snapshot: any = typeof data === "string" ? JSON.parse(data) : data;
+    if (
+      typeof snapshot?.criteria !== "object" ||
+      snapshot.criteria === null ||
+      Object.keys(snapshot.criteria).length === 0
+    ) {
+      throw new Error("Invalid snapshot: criteria must be a non-empty object");
+    }
+
+    const entries = Object.entries<any>(snapshot.criteria);
+    entries.forEach(([criterion, entry]) => {
+      if (typeof entry?.weight !== "number") {
+        throw new Error(
+          `Invalid snapshot: criteria.${criterion}.weight must be a number`
+        );
+      }
+    });
+
+    const ranker = new MultiCriteriaRanker<M>(
+      Object.fromEntries(
+        entries.map(([criterion, { weight }]) => [criterion, weight])
+      ),
+      [],
+      {}
+    );
+    entries.forEach(([criterion, { snapshot: rankerSnapshot }]) => {
+      ranker.rankers.set(
+        criterion,
+        Ranker.fromJSON<M>(rankerSnapshot, options)
+      );
+    });
+    return ranker;
+  }
+}
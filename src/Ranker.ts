@@ -1,33 +1,452 @@
 import {
+  BradleyTerryFit,
+  BradleyTerryOptions,
+  ItemDetails,
+  ItemFilter,
+  ItemMetadata,
+  ItemStats,
+  ItemUncertainty,
+  JudgeStats,
+  NextComparisonOptions,
+  PositionBias,
   RankableItem,
   ComparisonResult,
+  ComparisonRecord,
+  ComparisonAmendment,
+  ConsistencyOptions,
+  ConsistencyReport,
+  ConvergenceOptions,
+  ConvergenceReport,
+  HeadToHead,
+  PairwiseMatrix,
+  ComparisonOutcome,
   RankerConfig,
+  RankerEvent,
+  RankerEventMap,
   ProgressParams,
+  RankerOptions,
+  RankerSnapshot,
+  RankingOptions,
+  RatingModel,
+  RatingUpdate,
+  SelectionStrategy,
+  StatsOptions,
+  Tier,
+  TierOptions,
+  TopKStatus,
+  UncertaintyOptions,
 } from "./types";
+import { fitBradleyTerry } from "./bradleyTerry";
+import { resolveConfig } from "./config";
+import { analyzeConsistency } from "./consistency";
+import {
+  estimateRemainingComparisons,
+  kendallTau,
+  spearmanCorrelation,
+} from "./convergence";
+import { separation } from "./informationGain";
+import { TypedEmitter } from "./emitter";
+import { tallyHeadToHead, tallyPairwise } from "./headToHead";
+import { inactivityUpdate, isStale } from "./inactivity";
+import { computeJudgeStats } from "./judges";
+import { isProvisional, scheduledKFactor } from "./kFactor";
+import { outcomeScore, resolveOutcome } from "./outcomes";
+import {
+  SlotTally,
+  balancePresentation,
+  computePositionBias,
+  positionAdvantage,
+  tallyFirstSlot,
+} from "./positionBias";
+import { SeededRandom } from "./random";
+import { builtInRatingModels } from "./ratingModels";
+import { builtInSelectionStrategies } from "./selectionStrategies";
+import {
+  SNAPSHOT_VERSION,
+  cloneEvent,
+  cloneItem,
+  migrateSnapshot,
+} from "./snapshot";
+import { assignTiers } from "./tiers";
+import { computeTopKStatus } from "./topK";
+import { bootstrapUncertainty } from "./uncertainty";
 
-export class Ranker {
-  private items: Map<string, RankableItem>;
+function resolveComparisons(
+  events: RankerEvent[]
+): Map<string, ComparisonRecord | null> {
+  const resolved = new Map<string, ComparisonRecord | null>();
+  events.forEach((event) => {
+    if (event.type === "comparison") {
+      resolved.set(event.comparison.id, event.comparison);
+    } else if (event.type === "comparisonRetracted") {
+      resolved.set(event.comparisonId, null);
+    } else if (event.type === "comparisonAmended") {
+      const comparison = resolved.get(event.comparisonId);
+      if (comparison) {
+        resolved.set(event.comparisonId, amend(comparison, event.changes));
+      }
+    }
+  });
+  return resolved;
+}
+
+function matchesFilter<M extends ItemMetadata>(
+  item: RankableItem<M>,
+  options: ItemFilter<M>
+): boolean {
+  return (
+    (options.tags ?? []).every((tag) => item.tags?.includes(tag)) &&
+    (options.filter?.(item) ?? true)
+  );
+}
+
+function amend(
+  comparison: ComparisonRecord,
+  changes: ComparisonOutcome
+): ComparisonRecord {
+  const amended = { ...comparison, ...changes };
+  if (changes.score === undefined) delete amended.score;
+  if (changes.grade === undefined) delete amended.grade;
+  return amended;
+}
+
+export class Ranker<M extends ItemMetadata = ItemMetadata> {
+  private items: Map<string, RankableItem<M>>;
   private config: RankerConfig;
+  private ratingModels: Map<string, RatingModel>;
+  private ratingModel: RatingModel;
+  private selectionStrategies: Map<string, SelectionStrategy>;
+  private events: RankerEvent[];
+  private comparisons: Map<string, ComparisonRecord | null>;
+  private retractedIds: Set<string>;
+  private clock: () => number;
+  // Null unless seeded or injected, so unseeded suggestions stay stable
+  private random: (() => number) | null;
+  private seededRandom: SeededRandom | null;
+  private emitter: TypedEmitter<RankerEventMap>;
+  private progressThresholds: RankerOptions["progressThresholds"];
+  private firstSlot: SlotTally;
+  private kFactor: (item: RankableItem, config: RankerConfig) => number;
 
-  constructor(initialItems: RankableItem[], config: Partial<RankerConfig>) {
+  constructor(
+    initialItems: RankableItem<M>[],
+    config: Partial<RankerConfig>,
+    options: RankerOptions = {}
+  ) {
     this.items = new Map();
-    this.config = {
-      kFactor: config.kFactor ?? 32,
-      minimumComparisons: config.minimumComparisons ?? 20,
-      defaultInitialRating: config.defaultInitialRating ?? 1500,
-      minRating: config.minRating ?? 0,
+    this.config = resolveConfig(config);
+    this.ratingModels = new Map(
+      [...builtInRatingModels, ...(options.ratingModels ?? [])].map((model) => [
+        model.name,
+        model,
+      ])
+    );
+    this.ratingModel = this.resolveRatingModel(this.config.ratingModel);
+    this.selectionStrategies = new Map(
+      [
+        ...builtInSelectionStrategies,
+        ...(options.selectionStrategies ?? []),
+      ].map((strategy) => [strategy.name, strategy])
+    );
+    this.resolveSelectionStrategy(this.config.selectionMode);
+    this.events = [];
+    this.comparisons = new Map();
+    this.retractedIds = new Set();
+    this.firstSlot = { score: 0, count: 0 };
+    this.clock = options.clock ?? Date.now;
+    this.seededRandom = null;
+    if (options.random) {
+      this.random = options.random;
+    } else if (this.config.seed !== null) {
+      const seededRandom = new SeededRandom(this.config.seed);
+      this.seededRandom = seededRandom;
+      this.random = () => seededRandom.next();
+    } else {
+      this.random = null;
+    }
+    this.emitter = new TypedEmitter(
+      options.onListenerError ?? ((error) => console.error(error))
+    );
+    this.progressThresholds = options.progressThresholds;
+    this.kFactor = options.kFactor ?? scheduledKFactor;
+
+    initialItems.forEach((item) =>
+      this.addItem(item.id, item.initialRating, item)
+    );
+  }
+
+  now(): number {
+    return this.clock();
+  }
+
+  on<K extends keyof RankerEventMap>(
+    type: K,
+    listener: (payload: RankerEventMap[K]) => void
+  ): void {
+    this.emitter.on(type, listener);
+  }
+
+  off<K extends keyof RankerEventMap>(
+    type: K,
+    listener: (payload: RankerEventMap[K]) => void
+  ): void {
+    this.emitter.off(type, listener);
+  }
+
+  addItem(
+    id: string,
+    initialRating?: number,
+    { metadata, tags }: ItemDetails<M> = {}
+  ): void {
+    this.observe(() => {
+      this.recordEvent({
+        type: "itemAdded",
+        sequence: this.events.length,
+        timestamp: this.clock(),
+        itemId: id,
+        ...(initialRating !== undefined && { initialRating }),
+        ...(metadata !== undefined && { metadata: { ...metadata } }),
+        ...(tags !== undefined && { tags: [...tags] }),
+      });
+      this.emitter.emit("itemAdded", { item: cloneItem(this.items.get(id)!) });
+    });
+  }
+
+  removeItem(id: string): void {
+    this.observe(() => {
+      this.recordEvent({
+        type: "itemRemoved",
+        sequence: this.events.length,
+        timestamp: this.clock(),
+        itemId: id,
+      });
+      this.emitter.emit("itemRemoved", { itemId: id });
+    });
+  }
+
+  addComparisonResult(result: ComparisonResult): number {
+    return this.observe(() => {
+      const comparison: ComparisonRecord = {
+        ...result,
+        ...resolveOutcome(result, this.config.gradeScale),
+        id: result.id ?? this.createComparisonId(),
+      };
+      const ratingDelta = this.recordEvent({
+        type: "comparison",
+        sequence: this.events.length,
+        timestamp: this.clock(),
+        comparison,
+      });
+      this.emitter.emit("comparisonAdded", {
+        comparison: { ...comparison },
+        ratingDelta,
+      });
+      return ratingDelta;
+    });
+  }
+
+  retractComparison(id: string): void {
+    this.recordCorrection({
+      type: "comparisonRetracted",
+      sequence: this.events.length,
+      timestamp: this.clock(),
+      comparisonId: id,
+    });
+  }
+
+  amendComparison(id: string, changes: ComparisonAmendment): void {
+    this.recordCorrection({
+      type: "comparisonAmended",
+      sequence: this.events.length,
+      timestamp: this.clock(),
+      comparisonId: id,
+      changes: resolveOutcome(changes, this.config.gradeScale),
+    });
+  }
+
+  getEventLog(): RankerEvent[] {
+    return this.events.map(cloneEvent);
+  }
+
+  getComparisons(): ComparisonRecord[] {
+    return Array.from(this.comparisons.values()).flatMap((comparison) =>
+      comparison ? [{ ...comparison }] : []
+    );
+  }
+
+  rebuild(config: Partial<RankerConfig> = {}): void {
+    this.observe(() => {
+      const resolved = resolveConfig({ ...this.config, ...config });
+      const ratingModel = this.resolveRatingModel(resolved.ratingModel);
+      this.resolveSelectionStrategy(resolved.selectionMode);
+      this.config = resolved;
+      this.ratingModel = ratingModel;
+      this.replay(this.events);
+    });
+  }
+
+  static fromEventLog<M extends ItemMetadata = ItemMetadata>(
+    events: RankerEvent[],
+    config: Partial<RankerConfig>,
+    options: RankerOptions = {}
+  ): Ranker<M> {
+    const ranker = new Ranker<M>([], config, options);
+    ranker.replay(events.map(cloneEvent));
+    return ranker;
+  }
+
+  private recordEvent(event: RankerEvent): number {
+    const ratingDelta = this.applyEvent(event);
+    this.events.push(event);
+    return ratingDelta;
+  }
+
+  private recordCorrection(event: RankerEvent & { comparisonId: string }) {
+    this.assertActiveComparison(event.comparisonId);
+    this.observe(() => this.replay([...this.events, event]));
+  }
+
+  // Derived events are found by comparing ratings, order and progress
+  // before and after a change, so corrections and rebuilds that touch many
+  // items report every effect.
+  private observe<T>(change: () => T): T {
+    if (!this.emitter.hasListeners()) return change();
+
+    const before = this.observableState();
+    const result = change();
+    const after = this.observableState();
+
+    after.ratings.forEach((rating, itemId) => {
+      const previous = before.ratings.get(itemId);
+      if (previous !== undefined && previous !== rating) {
+        this.emitter.emit("ratingChanged", {
+          itemId,
+          before: previous,
+          after: rating,
+        });
+      }
+    });
+
+    if (
+      before.ranking.length !== after.ranking.length ||
+      before.ranking.some((id, index) => id !== after.ranking[index])
+    ) {
+      this.emitter.emit("rankingChanged", {
+        before: before.ranking,
+        after: after.ranking,
+      });
+    }
+
+    if (before.progress !== null && after.progress !== null) {
+      const [from, to] = [before.progress, after.progress];
+      this.progressThresholds!.thresholds.forEach((threshold) => {
+        if (from < threshold && to >= threshold) {
+          this.emitter.emit("progressThresholdCrossed", {
+            threshold,
+            progress: to,
+            direction: "up",
+          });
+        } else if (from >= threshold && to < threshold) {
+          this.emitter.emit("progressThresholdCrossed", {
+            threshold,
+            progress: to,
+            direction: "down",
+          });
+        }
+      });
+    }
+
+    return result;
+  }
+
+  private observableState() {
+    const items = this.getAllItems();
+    return {
+      ratings: new Map(items.map((item) => [item.id, item.currentRating])),
+      ranking: items
+        .sort((a, b) => b.currentRating - a.currentRating)
+        .map((item) => item.id),
+      // An empty ranker counts as complete, so progress is only tracked once
+      // there are items to make progress on.
+      progress:
+        this.progressThresholds && this.items.size > 0
+          ? this.getProgress(this.progressThresholds.params)
+          : null,
     };
+  }
+
+  // Corrections are resolved up front so that every comparison is applied
+  // at its original position with its final outcome, as if it had been
+  // recorded correctly in the first place.
+  private replay(events: RankerEvent[]): void {
+    const resolved = resolveComparisons(events);
 
-    initialItems.forEach((item) => this.addItem(item.id, item.initialRating));
+    this.items = new Map();
+    this.comparisons = new Map();
+    this.retractedIds = new Set();
+    this.firstSlot = { score: 0, count: 0 };
+    this.events = [];
+    events.forEach((event) => {
+      this.applyEvent(event, resolved);
+      this.events.push(event);
+    });
   }
 
-  addItem(id: string, initialRating?: number): void {
+  private applyEvent(
+    event: RankerEvent,
+    resolved?: Map<string, ComparisonRecord | null>
+  ): number {
+    switch (event.type) {
+      case "itemAdded":
+        this.createItem(event.itemId, event.initialRating, event);
+        return 0;
+      case "itemRemoved":
+        this.deleteItem(event.itemId);
+        return 0;
+      case "comparison": {
+        const comparison = resolved
+          ? resolved.get(event.comparison.id) ?? null
+          : event.comparison;
+        return this.applyComparison(event.comparison, comparison);
+      }
+      case "comparisonRetracted":
+        this.assertActiveComparison(event.comparisonId);
+        this.retractedIds.add(event.comparisonId);
+        return 0;
+      case "comparisonAmended":
+        this.assertActiveComparison(event.comparisonId);
+        return 0;
+    }
+  }
+
+  private assertActiveComparison(id: string): void {
+    if (!this.comparisons.has(id)) {
+      throw new Error(`Comparison with id ${id} not found`);
+    }
+    if (this.retractedIds.has(id)) {
+      throw new Error(`Comparison with id ${id} has been retracted`);
+    }
+  }
+
+  private createComparisonId(): string {
+    let sequence = this.events.length;
+    while (this.comparisons.has(String(sequence))) {
+      sequence++;
+    }
+    return String(sequence);
+  }
+
+  private createItem(
+    id: string,
+    initialRating: number | undefined,
+    { metadata, tags }: ItemDetails
+  ): void {
     if (this.items.has(id)) {
       throw new Error(`Item with id ${id} already exists`);
     }
 
     const rating = initialRating ?? this.config.defaultInitialRating ?? 1500;
-    this.items.set(id, {
+    const item: RankableItem<M> = {
       id,
       initialRating: rating,
       currentRating: rating,
@@ -37,19 +456,27 @@ export class Ranker {
       ties: 0,
       lastComparisonTime: null,
       ratingHistory: [],
-    });
+      // The event log holds metadata untyped; items take the ranker's type.
+      ...(metadata !== undefined && { metadata: { ...metadata } as M }),
+      ...(tags !== undefined && { tags: [...tags] }),
+    };
+    this.ratingModel.initialize(item, this.config);
+    this.items.set(id, item);
   }
 
-  removeItem(id: string): void {
+  private deleteItem(id: string): void {
     if (!this.items.has(id)) {
       throw new Error(`Item with id ${id} not found`);
     }
     this.items.delete(id);
   }
 
-  addComparisonResult(result: ComparisonResult): number {
-    const item1 = this.items.get(result.itemId1);
-    const item2 = this.items.get(result.itemId2);
+  private applyComparison(
+    recorded: ComparisonRecord,
+    effective: ComparisonRecord | null
+  ): number {
+    const item1 = this.items.get(recorded.itemId1);
+    const item2 = this.items.get(recorded.itemId2);
 
     if (!item1 || !item2) {
       throw new Error("One or both items not found");
@@ -59,52 +486,78 @@ export class Ranker {
       throw new Error("Cannot compare an item with itself");
     }
 
-    const expectedScore1 = this.getExpectedScore(
-      item1.currentRating,
-      item2.currentRating
-    );
-    const expectedScore2 = 1 - expectedScore1;
+    if (this.comparisons.has(recorded.id)) {
+      throw new Error(`Comparison with id ${recorded.id} already exists`);
+    }
+    const weight = effective ? this.getJudgeWeight(effective.judgeId) : 0;
+    this.comparisons.set(recorded.id, effective);
+
+    if (!effective) return 0;
+    const result = effective;
 
-    let actualScore1: number, actualScore2: number;
+    [item1, item2].forEach((item) => {
+      const decay = inactivityUpdate(item, result.timestamp, this.config);
+      if (decay) this.applyRatingUpdate(item, decay);
+    });
 
     switch (result.result) {
       case "win":
-        actualScore1 = 1;
-        actualScore2 = 0;
         item1.wins++;
         item2.losses++;
         break;
       case "loss":
-        actualScore1 = 0;
-        actualScore2 = 1;
         item1.losses++;
         item2.wins++;
         break;
       case "tie":
-        actualScore1 = 0.5;
-        actualScore2 = 0.5;
         item1.ties++;
         item2.ties++;
         break;
     }
 
-    const newRating1 = this.calculateNewRating(
-      item1.currentRating,
+    const actualScore1 = outcomeScore(result);
+    const actualScore2 = 1 - actualScore1;
+
+    // The first item is rated as if it held the estimated first-slot
+    // advantage, which is taken off its updated rating again afterwards.
+    const advantage =
+      this.config.positionBias === "estimate"
+        ? positionAdvantage(this.firstSlot)
+        : 0;
+    const advantaged = {
+      ...item1,
+      currentRating: item1.currentRating + advantage,
+    };
+    const rated1 = this.ratingModel.rate(
+      advantaged,
+      item2,
       actualScore1,
-      expectedScore1
+      this.itemConfig(item1)
+    );
+    const update1 = this.weightRatingUpdate(
+      item1,
+      { ...rated1, rating: rated1.rating - advantage },
+      weight
     );
-    const newRating2 = this.calculateNewRating(
-      item2.currentRating,
-      actualScore2,
-      expectedScore2
+    const update2 = this.weightRatingUpdate(
+      item2,
+      this.ratingModel.rate(
+        item2,
+        advantaged,
+        actualScore2,
+        this.itemConfig(item2)
+      ),
+      weight
     );
+    this.firstSlot.score += actualScore1;
+    this.firstSlot.count++;
 
     const ratingDelta =
-      Math.abs(newRating1 - item1.currentRating) +
-      Math.abs(newRating2 - item2.currentRating);
+      Math.abs(update1.rating - item1.currentRating) +
+      Math.abs(update2.rating - item2.currentRating);
 
-    item1.currentRating = Math.max(newRating1, this.config.minRating);
-    item2.currentRating = Math.max(newRating2, this.config.minRating);
+    this.applyRatingUpdate(item1, update1);
+    this.applyRatingUpdate(item2, update2);
 
     item1.comparisons++;
     item2.comparisons++;
@@ -124,111 +577,366 @@ export class Ranker {
     return ratingDelta;
   }
 
-  getNextComparison(): [string, string] | null {
-    const items = Array.from(this.items.values());
+  getNextComparison(
+    options: NextComparisonOptions<M> = {}
+  ): [string, string] | null {
+    const now = this.clock();
+    const items = this.getCurrentItems(now).filter((item) =>
+      matchesFilter(item, options)
+    );
     if (items.length < 2) return null;
 
-    items.sort((a, b) => a.comparisons - b.comparisons);
-
-    const leastComparedItem = items[0];
-
-    if (leastComparedItem.comparisons >= this.config.minimumComparisons) {
+    if (
+      items.every(
+        (item) =>
+          item.comparisons >= this.config.minimumComparisons &&
+          !isStale(item, now, this.config)
+      )
+    ) {
       return null;
     }
 
-    const bestOpponent = this.findBestOpponent(leastComparedItem, items);
+    const excluded = new Set(options.exclude ?? []);
+    const available = items.filter((item) => !excluded.has(item.id));
+    if (available.length < 2) return null;
 
-    return [leastComparedItem.id, bestOpponent.id];
+    const comparisons = this.getComparisons();
+    const pair = this.resolveSelectionStrategy(
+      this.config.selectionMode
+    ).selectPair({
+      items: available,
+      comparisons,
+      config: this.config,
+      now,
+      ...(this.random && { random: this.random }),
+      expectedScore: (item, opponent) =>
+        this.ratingModel.expectedScore(item, opponent),
+    });
+    // Only the bias estimate relies on balanced presentation; otherwise the
+    // strategy's own order is kept.
+    return pair && this.config.positionBias === "estimate"
+      ? balancePresentation(pair, comparisons)
+      : pair;
   }
 
-  private findBestOpponent(
-    item: RankableItem,
-    allItems: RankableItem[]
-  ): RankableItem {
-    const potentialOpponents = allItems.filter(
-      (opponent) => opponent.id !== item.id
-    );
+  registerSelectionStrategy(strategy: SelectionStrategy): void {
+    this.selectionStrategies.set(strategy.name, strategy);
+  }
 
-    if (potentialOpponents.length === 0) {
-      throw new Error("No potential opponents found");
+  getItemHistory(id: string): Array<{ rating: number; timestamp: number }> {
+    const item = this.items.get(id);
+    if (!item) {
+      throw new Error(`Item with id ${id} not found`);
     }
+    return [...item.ratingHistory];
+  }
 
-    const scoredOpponents = potentialOpponents.map((opponent) => ({
-      opponent,
-      score: this.calculateOpponentScore(item, opponent),
+  getJudgeStats(): JudgeStats[] {
+    return computeJudgeStats(this.getComparisons()).map((stats) => ({
+      ...stats,
+      weight: this.resolveJudgeWeight(stats.judgeId, () => stats.reliability),
     }));
+  }
+
+  private getJudgeWeight(judgeId: string | undefined): number {
+    if (judgeId === undefined) return 1;
+    return this.resolveJudgeWeight(
+      judgeId,
+      () =>
+        computeJudgeStats(this.getComparisons()).find(
+          (stats) => stats.judgeId === judgeId
+        )?.reliability ?? 1
+    );
+  }
 
-    scoredOpponents.sort((a, b) => b.score - a.score);
+  private resolveJudgeWeight(
+    judgeId: string,
+    reliability: () => number
+  ): number {
+    if (
+      Object.prototype.hasOwnProperty.call(this.config.judgeWeights, judgeId)
+    ) {
+      return this.config.judgeWeights[judgeId];
+    }
+    return this.config.judgeWeighting === "reliability" ? reliability() : 1;
+  }
 
-    return scoredOpponents[0].opponent;
+  // Stored ratings reflect each item as of its last comparison; reads see
+  // them with any inactivity decay since then applied.
+  private currentItem(item: RankableItem<M>, now: number): RankableItem<M> {
+    const decay = inactivityUpdate(item, now, this.config);
+    if (!decay) return { ...item };
+    return {
+      ...item,
+      currentRating: Math.max(decay.rating, this.config.minRating),
+      ...(decay.ratingDeviation !== undefined && {
+        ratingDeviation: decay.ratingDeviation,
+      }),
+    };
   }
 
-  getItemHistory(id: string): Array<{ rating: number; timestamp: number }> {
-    const item = this.items.get(id);
-    if (!item) {
+  private getCurrentItems(now: number): RankableItem<M>[] {
+    return this.getAllItems().map((item) => this.currentItem(item, now));
+  }
+
+  // Rating models read K from the config, so each side of a comparison is
+  // rated with a config carrying that item's scheduled K.
+  private itemConfig(item: RankableItem): RankerConfig {
+    return { ...this.config, kFactor: this.kFactor(item, this.config) };
+  }
+
+  // Partial trust in a judgment moves each value only part of the way from
+  // its current state towards the full update.
+  private weightRatingUpdate(
+    item: RankableItem,
+    update: RatingUpdate,
+    weight: number
+  ): RatingUpdate {
+    if (weight === 1) return update;
+    const interpolate = (from: number | undefined, to: number | undefined) =>
+      from === undefined || to === undefined ? to : from + weight * (to - from);
+    return {
+      rating: interpolate(item.currentRating, update.rating)!,
+      ratingDeviation: interpolate(
+        item.ratingDeviation,
+        update.ratingDeviation
+      ),
+      volatility: interpolate(item.volatility, update.volatility),
+    };
+  }
+
+  private applyRatingUpdate(item: RankableItem, update: RatingUpdate): void {
+    item.currentRating = Math.max(update.rating, this.config.minRating);
+    if (update.ratingDeviation !== undefined) {
+      item.ratingDeviation = update.ratingDeviation;
+    }
+    if (update.volatility !== undefined) {
+      item.volatility = update.volatility;
+    }
+  }
+
+  private resolveSelectionStrategy(name: string): SelectionStrategy {
+    const strategy = this.selectionStrategies.get(name);
+    if (!strategy) {
+      throw new Error(`Unknown selection strategy ${name}`);
+    }
+    return strategy;
+  }
+
+  private resolveRatingModel(name: string): RatingModel {
+    const model = this.ratingModels.get(name);
+    if (!model) {
+      throw new Error(`Unknown rating model ${name}`);
+    }
+    return model;
+  }
+
+  getItemStats(id: string, options: StatsOptions = {}): ItemStats<M> {
+    if (!this.items.has(id)) {
       throw new Error(`Item with id ${id} not found`);
     }
-    return [...item.ratingHistory];
+    const item = this.currentItem(this.items.get(id)!, this.clock());
+    const provisional = isProvisional(item, this.config);
+    if (!options.uncertainty) {
+      return { ...item, provisional };
+    }
+
+    const uncertainty = this.getUncertainty(
+      options.uncertainty === true ? {} : options.uncertainty
+    );
+    return { ...item, provisional, uncertainty: uncertainty[id] };
   }
 
-  private calculateOpponentScore(
-    item: RankableItem,
-    opponent: RankableItem
-  ): number {
-    const ratingDifference = Math.abs(
-      item.currentRating - opponent.currentRating
+  getRankings(options: RankingOptions<M> = {}): ItemStats<M>[] {
+    let rankings: ItemStats<M>[];
+    if (options.method === "bradley-terry") {
+      const { ratings } = this.fitBradleyTerry(options.fit);
+      rankings = Array.from(this.items.values())
+        .map((item) => ({
+          ...item,
+          currentRating: ratings[item.id],
+          provisional: isProvisional(item, this.config),
+        }))
+        .sort((a, b) => b.currentRating - a.currentRating);
+    } else {
+      rankings = this.getCurrentItems(this.clock())
+        .map((item) => ({
+          ...item,
+          provisional: isProvisional(item, this.config),
+        }))
+        .sort((a, b) => b.currentRating - a.currentRating);
+    }
+
+    rankings = rankings.filter((item) => matchesFilter(item, options));
+
+    if (!options.uncertainty) {
+      return rankings;
+    }
+
+    // A filtered ranking is bootstrapped on its own: only the listed items
+    // and the comparisons between them.
+    const ids = new Set(rankings.map((item) => item.id));
+    const uncertainty = bootstrapUncertainty(
+      this.getAllItems().filter((item) => ids.has(item.id)),
+      this.getComparisons().filter(
+        (comparison) =>
+          ids.has(comparison.itemId1) && ids.has(comparison.itemId2)
+      ),
+      Object.fromEntries(rankings.map((item) => [item.id, item.currentRating])),
+      {
+        fit: options.fit,
+        ...(options.uncertainty === true ? {} : options.uncertainty),
+      },
+      this.random ?? Math.random
     );
-    const comparisonDifference = Math.abs(
-      item.comparisons - opponent.comparisons
+    return rankings.map((item) => ({
+      ...item,
+      uncertainty: uncertainty[item.id],
+    }));
+  }
+
+  // Groups keep the overall ranking order; items without a group are left
+  // out.
+  getGroupedRankings(
+    groupBy:
+      | (keyof M & string)
+      | ((item: RankableItem<M>) => string | undefined),
+    options: RankingOptions<M> = {}
+  ): Record<string, ItemStats<M>[]> {
+    const groupOf =
+      typeof groupBy === "string"
+        ? (item: RankableItem<M>) => {
+            const value = item.metadata?.[groupBy];
+            return value === undefined ? undefined : String(value);
+          }
+        : groupBy;
+
+    const groups: Record<string, ItemStats<M>[]> = {};
+    this.getRankings(options).forEach((item) => {
+      const group = groupOf(item);
+      if (group !== undefined) (groups[group] ??= []).push(item);
+    });
+    return groups;
+  }
+
+  getHeadToHead(itemId1: string, itemId2: string): HeadToHead {
+    const winProbability = this.getWinProbability(itemId1, itemId2);
+    const { score, ...record } = tallyHeadToHead(
+      this.getComparisons(),
+      itemId1,
+      itemId2
     );
+    return {
+      itemId1,
+      itemId2,
+      ...record,
+      score: record.comparisons > 0 ? score / record.comparisons : null,
+      winProbability,
+    };
+  }
 
-    const ratingScore = 1 / (1 + ratingDifference / 400);
-    const comparisonScore = 1 / (1 + comparisonDifference);
-    const timeScore = this.getTimeScore(opponent);
+  // The rating model's expected score for the first item, with ties
+  // counting half; it does not depend on the pair ever having met.
+  getWinProbability(itemId1: string, itemId2: string): number {
+    [itemId1, itemId2].forEach((id) => {
+      if (!this.items.has(id)) {
+        throw new Error(`Item with id ${id} not found`);
+      }
+    });
+    if (itemId1 === itemId2) {
+      throw new Error("Cannot compare an item with itself");
+    }
+    const now = this.clock();
+    return this.ratingModel.expectedScore(
+      this.currentItem(this.items.get(itemId1)!, now),
+      this.currentItem(this.items.get(itemId2)!, now)
+    );
+  }
 
-    return 0.4 * ratingScore + 0.4 * comparisonScore + 0.2 * timeScore;
+  // Rows and columns follow the ranking order; row i holds item i's record
+  // and predicted score against every other item.
+  getPairwiseMatrix(options: ItemFilter<M> = {}): PairwiseMatrix {
+    const { tags, filter } = options;
+    const ranked = this.getRankings({ tags, filter });
+    const items = ranked.map((item) => item.id);
+    const { wins, ties } = tallyPairwise(items, this.getComparisons());
+    return {
+      items,
+      wins,
+      losses: wins.map((row, i) => row.map((_, j) => wins[j][i])),
+      ties,
+      winProbabilities: ranked.map((item, i) =>
+        ranked.map((other, j) =>
+          i === j ? 0.5 : this.ratingModel.expectedScore(item, other)
+        )
+      ),
+    };
   }
 
-  private getTimeScore(item: RankableItem): number {
-    const now = Date.now();
-    if (!item.lastComparisonTime) return 1;
+  getTiers(options: TierOptions<M> = {}): Tier<M>[] {
+    const { tags, filter } = options;
+    return assignTiers(
+      this.getRankings({ tags, filter }),
+      this.config,
+      options
+    );
+  }
 
-    const timeSinceLastComparison = now - item.lastComparisonTime;
-    const maxTime = 7 * 24 * 60 * 60 * 1000; // 7 days in milliseconds
-    return Math.min(timeSinceLastComparison / maxTime, 1);
+  getUncertainty(
+    options: UncertaintyOptions = {}
+  ): Record<string, ItemUncertainty> {
+    return bootstrapUncertainty(
+      this.getAllItems(),
+      this.getComparisons(),
+      Object.fromEntries(
+        this.getCurrentItems(this.clock()).map((item) => [
+          item.id,
+          item.currentRating,
+        ])
+      ),
+      options,
+      this.random ?? Math.random
+    );
   }
 
-  private getExpectedScore(rating1: number, rating2: number): number {
-    return 1 / (1 + Math.pow(10, (rating2 - rating1) / 400));
+  getConsistency(options: ConsistencyOptions = {}): ConsistencyReport {
+    return analyzeConsistency(
+      this.getAllItems(),
+      this.getComparisons(),
+      options
+    );
   }
 
-  private calculateNewRating(
-    oldRating: number,
-    actualScore: number,
-    expectedScore: number
-  ): number {
-    return oldRating + this.config.kFactor * (actualScore - expectedScore);
+  getPositionBias(): PositionBias {
+    return computePositionBias(
+      this.getComparisons(),
+      this.config.positionBias === "estimate"
+    );
   }
 
-  getItemStats(id: string): RankableItem {
-    const item = this.items.get(id);
-    if (!item) {
-      throw new Error(`Item with id ${id} not found`);
+  getTopKStatus(k: number | null = this.config.topK): TopKStatus {
+    if (k === null) {
+      throw new Error("Top-K size is not configured");
+    }
+    if (!(Number.isInteger(k) && k >= 1)) {
+      throw new Error("Top-K size must be a positive integer");
     }
-    return { ...item };
+    return computeTopKStatus(
+      this.getCurrentItems(this.clock()),
+      k,
+      this.config
+    );
   }
 
-  getRankings(): RankableItem[] {
-    return Array.from(this.items.values()).sort(
-      (a, b) => b.currentRating - a.currentRating
-    );
+  fitBradleyTerry(options: BradleyTerryOptions = {}): BradleyTerryFit {
+    return fitBradleyTerry(this.getAllItems(), this.getComparisons(), options);
   }
 
   getItemCount(): number {
     return this.items.size;
   }
 
-  getAllItems(): RankableItem[] {
+  getAllItems(): RankableItem<M>[] {
     return Array.from(this.items.values());
   }
 
@@ -256,4 +964,106 @@ export class Ranker {
 
     return stableItems.length / this.items.size;
   }
+
+  // Correlations compare the current ranking with the ranking as it stood
+  // `window` comparisons ago, replayed from the event log.
+  getConvergence(options: ConvergenceOptions = {}): ConvergenceReport {
+    const {
+      window = this.items.size,
+      confidence = 0.95,
+      minimumCorrelation = 0.95,
+      resolution = 10,
+    } = options;
+    if (!(confidence > 0 && confidence < 1)) {
+      throw new Error("Convergence confidence must be between 0 and 1");
+    }
+    if (!(resolution > 0)) {
+      throw new Error("Convergence resolution must be positive");
+    }
+
+    const ranked = this.getRankings();
+    const ranking = ranked.map((item) => item.id);
+    const comparisonEvents = this.events.filter(
+      (event) => event.type === "comparison"
+    );
+
+    let previous: string[] | null = null;
+    if (window > 0 && comparisonEvents.length > window) {
+      const cutoff = this.events.indexOf(
+        comparisonEvents[comparisonEvents.length - window - 1]
+      );
+      previous = Ranker.fromEventLog(
+        this.events.slice(0, cutoff + 1),
+        this.config,
+        {
+          ratingModels: Array.from(this.ratingModels.values()),
+          selectionStrategies: Array.from(this.selectionStrategies.values()),
+          clock: this.clock,
+          kFactor: this.kFactor,
+        }
+      )
+        .getRankings()
+        .map((item) => item.id);
+    }
+
+    const uncertain = ranked
+      .slice(1)
+      .map((item, index): [RankableItem, RankableItem] => [ranked[index], item])
+      .filter(
+        ([higher, lower]) => separation(higher, lower, this.config) < confidence
+      );
+    const tau = previous && kendallTau(previous, ranking);
+
+    return {
+      comparisons: this.getComparisons().length,
+      window,
+      kendallTau: tau,
+      spearman: previous && spearmanCorrelation(previous, ranking),
+      uncertainPairs: uncertain.map(([higher, lower]) => [higher.id, lower.id]),
+      estimatedRemainingComparisons: estimateRemainingComparisons(
+        uncertain,
+        this.config,
+        confidence,
+        resolution
+      ),
+      converged:
+        tau !== null && tau >= minimumCorrelation && uncertain.length === 0,
+    };
+  }
+
+  toJSON(): RankerSnapshot {
+    return {
+      version: SNAPSHOT_VERSION,
+      config: resolveConfig(this.config),
+      items: Array.from(this.items.values()).map(cloneItem),
+      events: this.events.map(cloneEvent),
+      ...(this.seededRandom && { randomState: this.seededRandom.state }),
+    };
+  }
+
+  static fromJSON<M extends ItemMetadata = ItemMetadata>(
+    data: unknown,
+    options: RankerOptions = {}
+  ): Ranker<M> {
+    const snapshot = migrateSnapshot(
+      typeof data === "string" ? JSON.parse(data) : data
+    );
+
+    const ranker = new Ranker<M>([], snapshot.config, options);
+    snapshot.items.forEach((item) => {
+      ranker.items.set(item.id, cloneItem(item as RankableItem<M>));
+    });
+    ranker.events = snapshot.events.map(cloneEvent);
+    ranker.comparisons = resolveComparisons(ranker.events);
+    ranker.events.forEach((event) => {
+      if (event.type === "comparisonRetracted") {
+        ranker.retractedIds.add(event.comparisonId);
+      }
+    });
+    ranker.firstSlot = tallyFirstSlot(ranker.getComparisons());
+    if (ranker.seededRandom && snapshot.randomState !== undefined) {
+      ranker.seededRandom.state = snapshot.randomState;
+    }
+    return ranker;
+  }
 }
@@ -0,0 +1,63 @@
+#!/usr/bin/env node
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { emitKeypressEvents } from "node:readline";
+import { runCli } from "./cli";
+
+// Reads single key presses without waiting for Enter when stdin is a
+// terminal. Keys are queued because piped input delivers many at once;
+// Ctrl+C and the end of the input read as "q".
+function createKeyReader() {
+  const { stdin } = process;
+  const keys: string[] = [];
+  const waiting: Array<(key: string) => void> = [];
+  let listening = false;
+  let ended = false;
+
+  const push = (key: string) => {
+    const resolve = waiting.shift();
+    if (resolve) resolve(key);
+    else keys.push(key);
+  };
+
+  const readKey = (): Promise<string> => {
+    if (!listening) {
+      listening = true;
+      emitKeypressEvents(stdin);
+      if (stdin.isTTY) stdin.setRawMode(true);
+      stdin.on(
+        "keypress",
+        (char: string | undefined, key?: { name?: string; ctrl?: boolean }) =>
+          push(key?.ctrl && key.name === "c" ? "q" : char ?? "")
+      );
+      stdin.on("end", () => {
+        ended = true;
+        push("q");
+      });
+    }
+    if (keys.length > 0) return Promise.resolve(keys.shift()!);
+    if (ended) return Promise.resolve("q");
+    return new Promise((resolve) => waiting.push(resolve));
+  };
+
+  const close = () => {
+    if (!listening) return;
+    if (stdin.isTTY) stdin.setRawMode(false);
+    stdin.pause();
+  };
+
+  return { readKey, close };
+}
+
+const keyReader = createKeyReader();
+
+runCli(process.argv.slice(2), {
+  readFile: (path) => readFileSync(path, "utf8"),
+  writeFile: (path, contents) => writeFileSync(path, contents),
+  exists: existsSync,
+  print: (text) => console.log(text),
+  printError: (text) => console.error(text),
+  readKey: keyReader.readKey,
+}).then((code) => {
+  keyReader.close();
+  process.exitCode = code;
+});
@@ -0,0 +1,128 @@
+import {
+  BradleyTerryFit,
+  BradleyTerryOptions,
+  ComparisonRecord,
+  RankableItem,
+} from "./types";
+import { outcomeScore } from "./outcomes";
+
+type PairRecord = { i: number; j: number; games: number };
+
+// Fits Davidson's extension of the Bradley-Terry model, where
+//   P(i beats j) = πi / D,  P(tie) = ν√(πiπj) / D,  D = πi + πj + ν√(πiπj),
+// by iterating the fixed point of the likelihood equations. Strengths are
+// reported on the Elo scale (π = 10^(rating / 400)) relative to an anchor at
+// the mean starting rating. Each item also plays `priorWeight` virtual games
+// against the anchor, split evenly, which keeps ratings finite for items that
+// have never lost or never won.
+export function fitBradleyTerry(
+  items: RankableItem[],
+  comparisons: ComparisonRecord[],
+  options: BradleyTerryOptions = {}
+): BradleyTerryFit {
+  const {
+    maxIterations = 1000,
+    tolerance = 0.001,
+    priorWeight = 1,
+    warmStart = true,
+  } = options;
+
+  const index = new Map(items.map((item, i) => [item.id, i]));
+  const anchor =
+    items.reduce((sum, item) => sum + item.currentRating, 0) /
+    Math.max(items.length, 1);
+
+  const points = new Array(items.length).fill(priorWeight / 2);
+  const pairs = new Map<string, PairRecord>();
+  let totalTies = 0;
+
+  comparisons.forEach((comparison) => {
+    const i = index.get(comparison.itemId1);
+    const j = index.get(comparison.itemId2);
+    if (i === undefined || j === undefined) return;
+
+    const score = outcomeScore(comparison);
+    points[i] += score;
+    points[j] += 1 - score;
+    if (comparison.result === "tie") totalTies++;
+
+    const key = i < j ? `${i}:${j}` : `${j}:${i}`;
+    const pair = pairs.get(key) ?? { i, j, games: 0 };
+    pair.games++;
+    pairs.set(key, pair);
+  });
+
+  let strengths = items.map((item) =>
+    warmStart ? Math.pow(10, (item.currentRating - anchor) / 400) : 1
+  );
+  let tieParameter = totalTies > 0 ? 1 : 0;
+  let iterations = 0;
+  let converged = false;
+
+  while (!converged && iterations < maxIterations) {
+    iterations++;
+
+    const denominators = strengths.map((strength) =>
+      priorWeight > 0 ? priorWeight / (strength + 1) : 0
+    );
+    let tieDenominator = 0;
+
+    pairs.forEach(({ i, j, games }) => {
+      const root = Math.sqrt(strengths[i] * strengths[j]);
+      const d = strengths[i] + strengths[j] + tieParameter * root;
+      const ratio = Math.sqrt(strengths[j] / strengths[i]);
+      denominators[i] += (games * (1 + (tieParameter / 2) * ratio)) / d;
+      denominators[j] += (games * (1 + tieParameter / (2 * ratio))) / d;
+      tieDenominator += (games * root) / d;
+    });
+
+    const updated = strengths.map((strength, i) =>
+      denominators[i] > 0 ? points[i] / denominators[i] : strength
+    );
+    if (totalTies > 0) tieParameter = totalTies / tieDenominator;
+
+    const maxChange = updated.reduce(
+      (max, strength, i) =>
+        Math.max(max, Math.abs(400 * Math.log10(strength / strengths[i]))),
+      0
+    );
+    strengths = updated;
+    converged = maxChange < tolerance;
+  }
+
+  const ratings: Record<string, number> = {};
+  items.forEach((item, i) => {
+    ratings[item.id] = anchor + 400 * Math.log10(strengths[i]);
+  });
+
+  return {
+    ratings,
+    tieParameter,
+    iterations,
+    converged,
+    logLikelihood: logLikelihood(comparisons, index, strengths, tieParameter),
+  };
+}
+
+function logLikelihood(
+  comparisons: ComparisonRecord[],
+  index: Map<string, number>,
+  strengths: number[],
+  tieParameter: number
+): number {
+  return comparisons.reduce((total, comparison) => {
+    const i = index.get(comparison.itemId1);
+    const j = index.get(comparison.itemId2);
+    if (i === undefined || j === undefined) return total;
+
+    const root = Math.sqrt(strengths[i] * strengths[j]);
+    const d = strengths[i] + strengths[j] + tieParameter * root;
+    const numerator =
+      comparison.result === "win"
+        ? strengths[i]
+        : comparison.result === "loss"
+        ? strengths[j]
+        : tieParameter * root;
+    return total + Math.log(numerator / d);
+  }, 0);
+}
@@ -0,0 +1,327 @@
+import { parseArgs } from "node:util";
+import { Ranker } from "./Ranker";
+import {
+  SourceRecord,
+  atLocation,
+  detectFormat,
+  exportRankings,
+  importComparisons,
+  parseRecords,
+  toNumber,
+} from "./formats";
+import { ComparisonField, ItemDetails, ItemStats, RankerConfig } from "./types";
+
+export type CliIO = {
+  readFile(path: string): string;
+  writeFile(path: string, contents: string): void;
+  exists(path: string): boolean;
+  print(text: string): void;
+  printError(text: string): void;
+  readKey(): Promise<string>;
+  clock?: () => number;
+};
+
+type ItemInput = ItemDetails & { id: string; initialRating?: number };
+
+const USAGE = `Usage: eloranker <command> <state.json> [arguments]
+
+Commands:
+  init <state> [--items <file>] [--config <file>] [--force]
+                                    Start a new session
+  add-items <state> <file>          Add items from a file
+  import <state> <file> [--columns <field=column,...>]
+                                    Record comparisons from a file
+  rankings <state> [--format <table|json|csv|jsonl|markdown>] [--limit <n>]
+                                    Print the current rankings
+  next <state>                      Suggest the next pair to compare
+  record <state> <id1> <id2> <win|loss|tie>
+                                    Record one result for id1 against id2
+  judge <state>                     Judge suggested pairs interactively
+
+Files may be .json (an array), .jsonl or .csv with a header row. Items need
+an "id"; comparisons need "itemId1", "itemId2" and a "result", "score" or
+"grade".`;
+
+const JUDGE_HELP =
+  "[1] first is better  [2] second is better  [t] tie  [s] skip  [q] quit";
+
+export async function runCli(args: string[], io: CliIO): Promise<number> {
+  try {
+    const { values, positionals } = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        items: { type: "string" },
+        config: { type: "string" },
+        force: { type: "boolean" },
+        json: { type: "boolean" },
+        format: { type: "string" },
+        columns: { type: "string" },
+        limit: { type: "string" },
+        help: { type: "boolean", short: "h" },
+      },
+    });
+    const [command, statePath, ...rest] = positionals;
+
+    if (values.help || !command) {
+      io.print(USAGE);
+      return 0;
+    }
+    if (!statePath) {
+      throw new Error(`${command} needs the path of a state file`);
+    }
+
+    const clock = io.clock ?? Date.now;
+    const load = () => Ranker.fromJSON(io.readFile(statePath), { clock });
+    const save = (ranker: Ranker) =>
+      io.writeFile(statePath, JSON.stringify(ranker, null, 2) + "\n");
+
+    switch (command) {
+      case "init": {
+        if (io.exists(statePath) && !values.force) {
+          throw new Error(
+            `${statePath} already exists; pass --force to replace it`
+          );
+        }
+        const config: Partial<RankerConfig> = values.config
+          ? JSON.parse(io.readFile(values.config))
+          : {};
+        const ranker = new Ranker([], config, { clock });
+        if (values.items) addItems(ranker, readRecords(io, values.items));
+        save(ranker);
+        io.print(`Created ${statePath} with ${ranker.getItemCount()} items`);
+        return 0;
+      }
+      case "add-items": {
+        const ranker = load();
+        const records = readRecords(io, requireArgument(rest[0], "a file"));
+        addItems(ranker, records);
+        save(ranker);
+        io.print(`Added ${records.length} items`);
+        return 0;
+      }
+      case "import": {
+        const ranker = load();
+        const path = requireArgument(rest[0], "a file");
+        const format = detectFormat(path);
+        const count = importComparisons(ranker, io.readFile(path), {
+          format,
+          columns: parseColumns(values.columns),
+          timestamp: clock(),
+        });
+        save(ranker);
+        io.print(`Recorded ${count} comparisons`);
+        return 0;
+      }
+      case "rankings": {
+        const ranker = load();
+        const limit =
+          values.limit === undefined ? undefined : Number(values.limit);
+        if (limit !== undefined && !(Number.isInteger(limit) && limit >= 0)) {
+          throw new Error("--limit must be a non-negative integer");
+        }
+        const format = values.json ? "json" : values.format ?? "table";
+        switch (format) {
+          case "table":
+            io.print(formatRankings(ranker.getRankings().slice(0, limit)));
+            break;
+          case "json":
+            io.print(
+              JSON.stringify(ranker.getRankings().slice(0, limit), null, 2)
+            );
+            break;
+          case "csv":
+          case "jsonl":
+          case "markdown":
+            io.print(exportRankings(ranker, { format, limit }).trimEnd());
+            break;
+          default:
+            throw new Error(`Unknown rankings format ${format}`);
+        }
+        return 0;
+      }
+      case "next": {
+        const pair = load().getNextComparison();
+        io.print(pair ? pair.join("\t") : "No more comparisons needed");
+        return 0;
+      }
+      case "record": {
+        const [itemId1, itemId2, result] = rest;
+        requireArgument(itemId2, "two item ids");
+        if (result !== "win" && result !== "loss" && result !== "tie") {
+          throw new Error("Result must be win, loss or tie");
+        }
+        const ranker = load();
+        ranker.addComparisonResult({
+          itemId1,
+          itemId2,
+          result,
+          timestamp: clock(),
+        });
+        save(ranker);
+        return 0;
+      }
+      case "judge":
+        return await judge(load(), save, io, clock);
+      default:
+        throw new Error(`Unknown command ${command}`);
+    }
+  } catch (error) {
+    io.printError(
+      `eloranker: ${error instanceof Error ? error.message : String(error)}`
+    );
+    return 1;
+  }
+}
+
+// A skipped pair is left out of the next suggestion only, so the strategy
+// can come back to it later; if nothing else is left it is offered again.
+async function judge(
+  ranker: Ranker,
+  save: (ranker: Ranker) => void,
+  io: CliIO,
+  clock: () => number
+): Promise<number> {
+  let skipped: [string, string] | null = null;
+  let recorded = 0;
+
+  for (;;) {
+    const pair: [string, string] | null =
+      (skipped && ranker.getNextComparison({ exclude: skipped })) ??
+      ranker.getNextComparison();
+    if (!pair) {
+      io.print("No more comparisons needed");
+      break;
+    }
+
+    io.print("");
+    pair.forEach((id, index) =>
+      io.print(`[${index + 1}] ${describeItem(ranker, id)}`)
+    );
+    io.print(JUDGE_HELP);
+
+    let key = (await io.readKey()).toLowerCase();
+    while (!["1", "2", "t", "s", "q"].includes(key)) {
+      if (key.trim() !== "") io.print(`Unrecognised key ${key}`);
+      key = (await io.readKey()).toLowerCase();
+    }
+    if (key === "q") break;
+    if (key === "s") {
+      skipped = pair;
+      continue;
+    }
+
+    ranker.addComparisonResult({
+      itemId1: pair[0],
+      itemId2: pair[1],
+      result: key === "1" ? "win" : key === "2" ? "loss" : "tie",
+      timestamp: clock(),
+    });
+    save(ranker);
+    recorded++;
+    skipped = null;
+  }
+
+  io.print(`Recorded ${recorded} comparisons`);
+  return 0;
+}
+
+function requireArgument(value: string | undefined, description: string) {
+  if (value === undefined) {
+    throw new Error(`Missing argument: expected ${description}`);
+  }
+  return value;
+}
+
+function readRecords(io: CliIO, path: string): SourceRecord[] {
+  const format = detectFormat(path);
+  return parseRecords(io.readFile(path), format);
+}
+
+// "--columns itemId1=winner,itemId2=loser" reads each comparison field from
+// the named column instead.
+function parseColumns(
+  option: string | undefined
+): Partial<Record<ComparisonField, string>> {
+  if (option === undefined) return {};
+  return Object.fromEntries(
+    option.split(",").map((mapping) => {
+      const [field, column] = mapping.split("=").map((part) => part.trim());
+      if (!field || !column) {
+        throw new Error(`Invalid column mapping ${mapping}`);
+      }
+      return [field, column];
+    })
+  );
+}
+
+function addItems(ranker: Ranker, records: SourceRecord[]): void {
+  records.forEach(({ location, value }) =>
+    atLocation(location, () => {
+      const { id, initialRating, ...details } = toItem(value);
+      ranker.addItem(id, initialRating, details);
+    })
+  );
+}
+
+// Fields other than id, initialRating and tags become metadata, so a CSV of
+// items can carry extra columns such as the text shown to judges.
+function toItem(record: unknown): ItemInput {
+  if (typeof record === "string") return { id: record };
+  if (typeof record !== "object" || record === null) {
+    throw new Error("Item must be an id or an object with an id");
+  }
+  const { id, initialRating, tags, metadata, ...rest } = record as Record<
+    string,
+    unknown
+  >;
+  if (typeof id !== "string" || id === "") {
+    throw new Error("Item is missing an id");
+  }
+  return {
+    id,
+    ...(initialRating !== undefined && {
+      initialRating: toNumber(initialRating, "initialRating"),
+    }),
+    ...(tags !== undefined && {
+      tags: typeof tags === "string" ? tags.split(";") : (tags as string[]),
+    }),
+    ...(metadata !== undefined
+      ? { metadata: metadata as Record<string, unknown> }
+      : Object.keys(rest).length > 0 && { metadata: rest }),
+  };
+}
+
+function describeItem(ranker: Ranker, id: string): string {
+  const { metadata } = ranker.getItemStats(id);
+  const details = Object.entries(metadata ?? {}).map(
+    ([key, value]) => `\n    ${key}: ${String(value)}`
+  );
+  return id + details.join("");
+}
+
+function formatRankings(rankings: ItemStats[]): string {
+  const rows = rankings.map((item, index) => [
+    String(index + 1),
+    item.id + (item.provisional ? " *" : ""),
+    item.currentRating.toFixed(1),
+    `${item.wins}-${item.losses}-${item.ties}`,
+  ]);
+  const table = [["Rank", "Item", "Rating", "W-L-T"], ...rows];
+  const widths = table[0].map((_, column) =>
+    Math.max(...table.map((row) => row[column].length))
+  );
+  const lines = table.map((row) =>
+    row
+      .map((cell, column) =>
+        column === 1
+          ? cell.padEnd(widths[column])
+          : cell.padStart(widths[column])
+      )
+      .join("  ")
+      .trimEnd()
+  );
+  return rows.some((row) => row[1].endsWith(" *"))
+    ? [...lines, "", "* provisional rating"].join("\n")
+    : lines.join("\n");
+}
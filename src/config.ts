@@ -0,0 +1,77 @@
+import { RankerConfig } from "./types";
+
+export const defaultConfig: RankerConfig = {
+  kFactor: 32,
+  minimumComparisons: 20,
+  defaultInitialRating: 1500,
+  minRating: 0,
+  ratingModel: "elo",
+  initialRatingDeviation: 350,
+  initialVolatility: 0.06,
+  volatilityConstraint: 0.5,
+  selectionMode: "heuristic",
+  minimumInformationGain: 0.001,
+  seed: null,
+  judgeWeighting: "none",
+  judgeWeights: {},
+  gradeScale: {
+    "much worse": 0,
+    "slightly worse": 0.25,
+    equal: 0.5,
+    "slightly better": 0.75,
+    "much better": 1,
+  },
+  topK: null,
+  topKConfidence: 0.95,
+  topKOrdered: false,
+  positionBias: "none",
+  provisionalComparisons: 10,
+  provisionalKFactor: null,
+  kFactorDecay: false,
+  kFactorBrackets: [],
+  inactivityDecay: "none",
+  inactivityPeriod: 7 * 24 * 60 * 60 * 1000, // 7 days in milliseconds
+  ratingDecayRate: 0.1,
+};
+
+export function resolveConfig(config: Partial<RankerConfig>): RankerConfig {
+  return {
+    kFactor: config.kFactor ?? defaultConfig.kFactor,
+    minimumComparisons:
+      config.minimumComparisons ?? defaultConfig.minimumComparisons,
+    defaultInitialRating:
+      config.defaultInitialRating ?? defaultConfig.defaultInitialRating,
+    minRating: config.minRating ?? defaultConfig.minRating,
+    ratingModel: config.ratingModel ?? defaultConfig.ratingModel,
+    initialRatingDeviation:
+      config.initialRatingDeviation ?? defaultConfig.initialRatingDeviation,
+    initialVolatility:
+      config.initialVolatility ?? defaultConfig.initialVolatility,
+    volatilityConstraint:
+      config.volatilityConstraint ?? defaultConfig.volatilityConstraint,
+    selectionMode: config.selectionMode ?? defaultConfig.selectionMode,
+    minimumInformationGain:
+      config.minimumInformationGain ?? defaultConfig.minimumInformationGain,
+    seed: config.seed ?? defaultConfig.seed,
+    judgeWeighting: config.judgeWeighting ?? defaultConfig.judgeWeighting,
+    judgeWeights: { ...defaultConfig.judgeWeights, ...config.judgeWeights },
+    gradeScale: { ...(config.gradeScale ?? defaultConfig.gradeScale) },
+    topK: config.topK ?? defaultConfig.topK,
+    topKConfidence: config.topKConfidence ?? defaultConfig.topKConfidence,
+    topKOrdered: config.topKOrdered ?? defaultConfig.topKOrdered,
+    positionBias: config.positionBias ?? defaultConfig.positionBias,
+    provisionalComparisons:
+      config.provisionalComparisons ?? defaultConfig.provisionalComparisons,
+    provisionalKFactor:
+      config.provisionalKFactor !== undefined
+        ? config.provisionalKFactor
+        : defaultConfig.provisionalKFactor,
+    kFactorDecay: config.kFactorDecay ?? defaultConfig.kFactorDecay,
+    kFactorBrackets: (
+      config.kFactorBrackets ?? defaultConfig.kFactorBrackets
+    ).map((bracket) => ({ ...bracket })),
+    inactivityDecay: config.inactivityDecay ?? defaultConfig.inactivityDecay,
+    inactivityPeriod: config.inactivityPeriod ?? defaultConfig.inactivityPeriod,
+    ratingDecayRate: config.ratingDecayRate ?? defaultConfig.ratingDecayRate,
+  };
+}
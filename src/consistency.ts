@@ -0,0 +1,154 @@
+import { outcomeScore } from "./outcomes";
+import {
+  ComparisonRecord,
+  ConsistencyOptions,
+  ConsistencyReport,
+  RankableItem,
+} from "./types";
+
+// Each pair of items is reduced to a single directed edge pointing from the
+// item that won more of their comparisons to the one that lost more; pairs
+// that came out even have no edge.
+function majorityEdges(
+  comparisons: ComparisonRecord[]
+): Map<string, Set<string>> {
+  const balance = new Map<string, Map<string, number>>();
+  const add = (from: string, to: string, amount: number) => {
+    const row = balance.get(from) ?? new Map<string, number>();
+    row.set(to, (row.get(to) ?? 0) + amount);
+    balance.set(from, row);
+  };
+  comparisons.forEach((comparison) => {
+    const margin = outcomeScore(comparison) - 0.5;
+    add(comparison.itemId1, comparison.itemId2, margin);
+    add(comparison.itemId2, comparison.itemId1, -margin);
+  });
+
+  const beats = new Map<string, Set<string>>();
+  balance.forEach((row, from) => {
+    beats.set(
+      from,
+      new Set(
+        Array.from(row.entries())
+          .filter(([, margin]) => margin > 1e-9)
+          .map(([to]) => to)
+      )
+    );
+  });
+  return beats;
+}
+
+// Tarjan's algorithm; every strongly connected component with more than one
+// item contains at least one cycle.
+function cyclicGroups(beats: Map<string, Set<string>>): string[][] {
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const groups: string[][] = [];
+
+  const visit = (id: string) => {
+    index.set(id, index.size);
+    lowLink.set(id, index.get(id)!);
+    stack.push(id);
+    onStack.add(id);
+
+    beats.get(id)?.forEach((next) => {
+      if (!index.has(next)) {
+        visit(next);
+        lowLink.set(id, Math.min(lowLink.get(id)!, lowLink.get(next)!));
+      } else if (onStack.has(next)) {
+        lowLink.set(id, Math.min(lowLink.get(id)!, index.get(next)!));
+      }
+    });
+
+    if (lowLink.get(id) === index.get(id)) {
+      const group: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        group.push(member);
+      } while (member !== id);
+      if (group.length > 1) groups.push(group.reverse());
+    }
+  };
+
+  beats.forEach((_, id) => {
+    if (!index.has(id)) visit(id);
+  });
+  return groups;
+}
+
+// Consistency follows Kendall and Babington Smith's coefficient: the share of
+// fully decided triads that are transitive. Comparisons are suspect when
+// they support an edge that closes a cycle, or when they contradict the
+// ratings; `upset` is how far the winner was rated below the loser.
+export function analyzeConsistency(
+  items: RankableItem[],
+  comparisons: ComparisonRecord[],
+  options: ConsistencyOptions = {}
+): ConsistencyReport {
+  const { maxCycles = 100, maxSuspects = 10 } = options;
+  const beats = majorityEdges(comparisons);
+  const decided = (a: string, b: string) =>
+    !!beats.get(a)?.has(b) || !!beats.get(b)?.has(a);
+
+  const ids = items.map((item) => item.id).sort();
+  const edgeCycles = new Map<string, number>();
+  const cycles: Array<[string, string, string]> = [];
+  let triads = 0;
+  let cyclicTriads = 0;
+
+  for (let i = 0; i < ids.length; i++) {
+    for (let j = i + 1; j < ids.length; j++) {
+      if (!decided(ids[i], ids[j])) continue;
+      for (let k = j + 1; k < ids.length; k++) {
+        if (!decided(ids[i], ids[k]) || !decided(ids[j], ids[k])) continue;
+        triads++;
+
+        const [a, b, c] = beats.get(ids[i])!.has(ids[j])
+          ? [ids[i], ids[j], ids[k]]
+          : [ids[j], ids[i], ids[k]];
+        if (!beats.get(b)!.has(c) || !beats.get(c)!.has(a)) continue;
+        cyclicTriads++;
+        if (cycles.length < maxCycles) cycles.push([a, b, c]);
+        [`${a}\u0000${b}`, `${b}\u0000${c}`, `${c}\u0000${a}`].forEach((edge) =>
+          edgeCycles.set(edge, (edgeCycles.get(edge) ?? 0) + 1)
+        );
+      }
+    }
+  }
+
+  const ratings = new Map(items.map((item) => [item.id, item.currentRating]));
+  const suspectComparisons = comparisons
+    .filter(
+      (comparison) =>
+        ratings.has(comparison.itemId1) && ratings.has(comparison.itemId2)
+    )
+    .map((comparison) => {
+      const score = outcomeScore(comparison);
+      if (score === 0.5) return { comparison, cycles: 0, upset: 0 };
+      const [winner, loser] =
+        score > 0.5
+          ? [comparison.itemId1, comparison.itemId2]
+          : [comparison.itemId2, comparison.itemId1];
+      return {
+        comparison: { ...comparison },
+        cycles: edgeCycles.get(`${winner}\u0000${loser}`) ?? 0,
+        upset: Math.max(0, ratings.get(loser)! - ratings.get(winner)!),
+      };
+    })
+    .filter(({ cycles, upset }) => cycles > 0 || upset > 0)
+    .sort((a, b) => b.cycles - a.cycles || b.upset - a.upset)
+    .slice(0, maxSuspects);
+
+  return {
+    consistency: triads ? 1 - cyclicTriads / triads : 1,
+    triads,
+    cyclicTriads,
+    cycles,
+    cyclicGroups: cyclicGroups(beats),
+    suspectComparisons,
+  };
+}
@@ -0,0 +1,86 @@
+import { normalCdf, ratingDeviation } from "./informationGain";
+import { RankableItem, RankerConfig } from "./types";
+
+// Both correlations only consider items present in both rankings; `null`
+// means there are too few shared items to compare.
+function sharedRanks(
+  previous: string[],
+  current: string[]
+): [number[], number[]] {
+  const shared = current.filter((id) => previous.includes(id));
+  const rank = (ranking: string[]) => {
+    const filtered = ranking.filter((id) => shared.includes(id));
+    return shared.map((id) => filtered.indexOf(id));
+  };
+  return [rank(previous), rank(current)];
+}
+
+export function kendallTau(
+  previous: string[],
+  current: string[]
+): number | null {
+  const [a, b] = sharedRanks(previous, current);
+  if (a.length < 2) return null;
+
+  let balance = 0;
+  for (let i = 0; i < a.length; i++) {
+    for (let j = i + 1; j < a.length; j++) {
+      balance += Math.sign(a[i] - a[j]) * Math.sign(b[i] - b[j]);
+    }
+  }
+  return balance / ((a.length * (a.length - 1)) / 2);
+}
+
+export function spearmanCorrelation(
+  previous: string[],
+  current: string[]
+): number | null {
+  const [a, b] = sharedRanks(previous, current);
+  const n = a.length;
+  if (n < 2) return null;
+
+  const squaredDifferences = a.reduce(
+    (sum, rank, i) => sum + Math.pow(rank - b[i], 2),
+    0
+  );
+  return 1 - (6 * squaredDifferences) / (n * (n * n - 1));
+}
+
+// Assumes an item's rating variance shrinks in proportion to 1 / (1 + n)
+// with its comparison count n, as for the default Elo deviation, and that
+// every uncertain neighbour pair is compared directly until it separates.
+// Gaps smaller than `resolution` are treated as `resolution` so that
+// near-identical items do not need an unbounded number of comparisons.
+export function estimateRemainingComparisons(
+  pairs: Array<[RankableItem, RankableItem]>,
+  config: RankerConfig,
+  confidence: number,
+  resolution: number
+): number {
+  const extra = new Map<string, number>();
+
+  const variance = (item: RankableItem, added: number) =>
+    (Math.pow(ratingDeviation(item, config), 2) * (1 + item.comparisons)) /
+    (1 + item.comparisons + (extra.get(item.id) ?? 0) + added);
+  const separated = (a: RankableItem, b: RankableItem, added: number) =>
+    normalCdf(
+      Math.max(Math.abs(a.currentRating - b.currentRating), resolution) /
+        Math.sqrt(variance(a, added) + variance(b, added))
+    ) >= confidence;
+
+  return pairs.reduce((total, [a, b]) => {
+    let upper = 1;
+    while (!separated(a, b, upper)) upper *= 2;
+    let lower = 0;
+    while (upper - lower > 1) {
+      const middle = Math.floor((lower + upper) / 2);
+      if (separated(a, b, middle)) upper = middle;
+      else lower = middle;
+    }
+    const needed = separated(a, b, 0) ? 0 : upper;
+
+    extra.set(a.id, (extra.get(a.id) ?? 0) + needed);
+    extra.set(b.id, (extra.get(b.id) ?? 0) + needed);
+    return total + needed;
+  }, 0);
+}
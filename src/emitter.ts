@@ -0,0 +1,38 @@
+type Listener<T> = (payload: T) => void;
+
+export class TypedEmitter<Events> {
+  private listeners = new Map<keyof Events, Set<Listener<any>>>();
+  private onError: (error: unknown) => void;
+
+  constructor(onError: (error: unknown) => void) {
+    this.onError = onError;
+  }
+
+  on<K extends keyof Events>(type: K, listener: Listener<Events[K]>): void {
+    const listeners = this.listeners.get(type) ?? new Set();
+    listeners.add(listener);
+    this.listeners.set(type, listeners);
+  }
+
+  off<K extends keyof Events>(type: K, listener: Listener<Events[K]>): void {
+    this.listeners.get(type)?.delete(listener);
+  }
+
+  emit<K extends keyof Events>(type: K, payload: Events[K]): void {
+    // A failing listener must not skip the others or surface as a failure
+    // of the change that has already been applied.
+    [...(this.listeners.get(type) ?? [])].forEach((listener) => {
+      try {
+        listener(payload);
+      } catch (error) {
+        this.onError(error);
+      }
+    });
+  }
+
+  hasListeners(type?: keyof Events): boolean {
+    return type === undefined
+      ? [...this.listeners.values()].some((listeners) => listeners.size > 0)
+      : (this.listeners.get(type)?.size ?? 0) > 0;
+  }
+}
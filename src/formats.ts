@@ -0,0 +1,367 @@
+import type { Ranker } from "./Ranker";
+import { resolveOutcome } from "./outcomes";
+import {
+  ComparisonField,
+  ComparisonImportOptions,
+  ComparisonResult,
+  FileFormat,
+  ItemStats,
+  RankingExportOptions,
+} from "./types";
+
+export type SourceRecord = { location: string; value: unknown };
+
+const COMPARISON_FIELDS: ComparisonField[] = [
+  "id",
+  "itemId1",
+  "itemId2",
+  "result",
+  "score",
+  "grade",
+  "timestamp",
+  "judgeId",
+];
+
+export function detectFormat(path: string): FileFormat {
+  const extension = path.slice(path.lastIndexOf(".") + 1).toLowerCase();
+  switch (extension) {
+    case "json":
+      return "json";
+    case "jsonl":
+    case "ndjson":
+      return "jsonl";
+    case "csv":
+      return "csv";
+    default:
+      throw new Error(
+        `Cannot tell the format of ${path}; use a .json, .jsonl or .csv file`
+      );
+  }
+}
+
+// RFC 4180: fields may be quoted, quoted fields may contain commas, line
+// breaks and doubled quotes. Blank lines are skipped.
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== "") rows.push(row);
+    row = [];
+    field = "";
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n") {
+      endRow();
+    } else if (char !== "\r") {
+      field += char;
+    }
+  }
+  if (quoted) {
+    throw new Error("Unterminated quoted field in CSV");
+  }
+  if (field !== "" || row.length > 0) endRow();
+  return rows;
+}
+
+// CSV rows become objects keyed by the header row; JSON must hold an array,
+// and JSONL holds one value per non-blank line. Locations name the CSV row
+// as a spreadsheet would (the header is row 1), the JSONL line, or the
+// position in the JSON array.
+export function parseRecords(text: string, format: FileFormat): SourceRecord[] {
+  switch (format) {
+    case "json": {
+      const parsed = JSON.parse(text);
+      if (!Array.isArray(parsed)) {
+        throw new Error("JSON input must be an array");
+      }
+      return parsed.map((value, index) => ({
+        location: `Record ${index + 1}`,
+        value,
+      }));
+    }
+    case "jsonl":
+      return text
+        .split("\n")
+        .map((line, index) => ({
+          line: line.trim(),
+          location: `Line ${index + 1}`,
+        }))
+        .filter(({ line }) => line !== "")
+        .map(({ line, location }) => {
+          try {
+            return { location, value: JSON.parse(line) };
+          } catch {
+            throw new Error(`${location}: invalid JSON`);
+          }
+        });
+    case "csv": {
+      const [header, ...rows] = parseCsv(text);
+      if (!header) return [];
+      return rows.map((row, index) => ({
+        location: `Row ${index + 2}`,
+        value: Object.fromEntries(
+          header
+            .map((name, position) => [name.trim(), row[position] ?? ""])
+            .filter(([, value]) => value !== "")
+        ),
+      }));
+    }
+  }
+}
+
+export function atLocation<T>(location: string, action: () => T): T {
+  try {
+    return action();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`${location}: ${message}`);
+  }
+}
+
+// Every record is converted and checked against the ranker's items and
+// grade scale, and given an id if it has none, before the first one is
+// recorded, so a bad row leaves the ranker untouched.
+export function importComparisons(
+  ranker: Ranker,
+  text: string,
+  options: ComparisonImportOptions
+): number {
+  const { format, columns = {}, timestamp = Date.now() } = options;
+  Object.keys(columns).forEach((field) => {
+    if (!COMPARISON_FIELDS.includes(field as ComparisonField)) {
+      throw new Error(`Unknown comparison field ${field}`);
+    }
+  });
+  const itemIds = new Set(ranker.getAllItems().map((item) => item.id));
+  const events = ranker.getEventLog();
+  // Retracted comparisons keep their ids, so these come from the event log.
+  const comparisonIds = new Set(
+    events.flatMap((event) =>
+      event.type === "comparison" ? [event.comparison.id] : []
+    )
+  );
+  const { gradeScale } = ranker.toJSON().config;
+
+  const comparisons = parseRecords(text, format).map(({ location, value }) =>
+    atLocation(location, () => {
+      const comparison = toComparison(value, columns, timestamp);
+      [comparison.itemId1, comparison.itemId2].forEach((id) => {
+        if (!itemIds.has(id)) throw new Error(`Item with id ${id} not found`);
+      });
+      if (comparison.itemId1 === comparison.itemId2) {
+        throw new Error("Cannot compare an item with itself");
+      }
+      if (comparison.id !== undefined) {
+        if (comparisonIds.has(comparison.id)) {
+          throw new Error(`Comparison with id ${comparison.id} already exists`);
+        }
+        comparisonIds.add(comparison.id);
+      }
+      resolveOutcome(comparison, gradeScale);
+      return { location, comparison };
+    })
+  );
+
+  // Ids are numbered as the ranker would number them, skipping any that
+  // are taken or that appear later in the file.
+  let sequence = events.length;
+  comparisons.forEach(({ comparison }, index) => {
+    if (comparison.id !== undefined) return;
+    sequence = Math.max(sequence, events.length + index);
+    while (comparisonIds.has(String(sequence))) sequence++;
+    comparison.id = String(sequence);
+    comparisonIds.add(comparison.id);
+  });
+
+  comparisons.forEach(({ location, comparison }) =>
+    atLocation(location, () => ranker.addComparisonResult(comparison))
+  );
+  return comparisons.length;
+}
+
+function toComparison(
+  value: unknown,
+  columns: Partial<Record<ComparisonField, string>>,
+  defaultTimestamp: number
+): ComparisonResult {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new Error("Comparison must be an object");
+  }
+  const fields = Object.fromEntries(
+    COMPARISON_FIELDS.map((field) => [
+      field,
+      (value as Record<string, unknown>)[columns[field] ?? field],
+    ])
+  ) as Record<ComparisonField, unknown>;
+  const { id, itemId1, itemId2, result, score, grade, timestamp, judgeId } =
+    fields;
+  const column = (field: ComparisonField) => columns[field] ?? field;
+
+  if (typeof itemId1 !== "string" || itemId1 === "") {
+    throw new Error(`Missing ${column("itemId1")}`);
+  }
+  if (typeof itemId2 !== "string" || itemId2 === "") {
+    throw new Error(`Missing ${column("itemId2")}`);
+  }
+  if (
+    result !== undefined &&
+    result !== "win" &&
+    result !== "loss" &&
+    result !== "tie"
+  ) {
+    throw new Error(
+      `${column("result")} must be win, loss or tie, not ${String(result)}`
+    );
+  }
+  return {
+    itemId1,
+    itemId2,
+    timestamp:
+      timestamp === undefined
+        ? defaultTimestamp
+        : toTimestamp(timestamp, column("timestamp")),
+    ...(id !== undefined && { id: String(id) }),
+    ...(result !== undefined && { result }),
+    ...(score !== undefined && { score: toNumber(score, column("score")) }),
+    ...(grade !== undefined && { grade: String(grade) }),
+    ...(judgeId !== undefined && { judgeId: String(judgeId) }),
+  };
+}
+
+export function toNumber(value: unknown, field: string): number {
+  const number =
+    typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+  if (typeof number !== "number" || !Number.isFinite(number)) {
+    throw new Error(`${field} must be a number, not ${String(value)}`);
+  }
+  return number;
+}
+
+// Timestamps may be epoch milliseconds or any date string Date.parse reads.
+function toTimestamp(value: unknown, field: string): number {
+  const timestamp =
+    typeof value === "number" ||
+    (typeof value === "string" && /^-?\d+$/.test(value))
+      ? Number(value)
+      : typeof value === "string"
+      ? Date.parse(value)
+      : NaN;
+  if (!Number.isFinite(timestamp)) {
+    throw new Error(`${field} is not a valid timestamp: ${String(value)}`);
+  }
+  return timestamp;
+}
+
+type RankingRow = {
+  rank: number;
+  id: string;
+  rating: number;
+  comparisons: number;
+  wins: number;
+  losses: number;
+  ties: number;
+  provisional: boolean;
+};
+
+function toRow(item: ItemStats, index: number): RankingRow {
+  return {
+    rank: index + 1,
+    id: item.id,
+    rating: item.currentRating,
+    comparisons: item.comparisons,
+    wins: item.wins,
+    losses: item.losses,
+    ties: item.ties,
+    provisional: item.provisional,
+  };
+}
+
+export function exportRankings(
+  ranker: Ranker,
+  options: RankingExportOptions
+): string {
+  const { format, limit, precision = 1, ...rankingOptions } = options;
+  const rankings = ranker.getRankings(rankingOptions).slice(0, limit);
+
+  switch (format) {
+    case "csv": {
+      const rows = rankings.map(toRow);
+      const header: Array<keyof RankingRow> = [
+        "rank",
+        "id",
+        "rating",
+        "comparisons",
+        "wins",
+        "losses",
+        "ties",
+        "provisional",
+      ];
+      return (
+        [
+          header.join(","),
+          ...rows.map((row) =>
+            header.map((field) => csvField(String(row[field]))).join(",")
+          ),
+        ].join("\n") + "\n"
+      );
+    }
+    case "jsonl":
+      return rankings
+        .map((item, index) =>
+          JSON.stringify({
+            ...toRow(item, index),
+            ...(item.metadata !== undefined && { metadata: item.metadata }),
+            ...(item.tags !== undefined && { tags: item.tags }),
+          })
+        )
+        .map((line) => line + "\n")
+        .join("");
+    case "markdown": {
+      const rows = rankings.map((item, index) => [
+        String(index + 1),
+        markdownCell(item.id) + (item.provisional ? "\\*" : ""),
+        item.currentRating.toFixed(precision),
+        String(item.wins),
+        String(item.losses),
+        String(item.ties),
+      ]);
+      const lines = [
+        "| Rank | Item | Rating | W | L | T |",
+        "| ---: | :--- | ---: | ---: | ---: | ---: |",
+        ...rows.map((row) => `| ${row.join(" | ")} |`),
+      ];
+      if (rankings.some((item) => item.provisional)) {
+        lines.push("", "\\* Provisional rating");
+      }
+      return lines.join("\n") + "\n";
+    }
+  }
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function markdownCell(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\|/g, "\\|").replace(/\n/g, " ");
+}
@@ -0,0 +1,65 @@
+import { outcomeScore } from "./outcomes";
+import { ComparisonRecord } from "./types";
+
+export type PairRecord = {
+  comparisons: number;
+  wins: number;
+  losses: number;
+  ties: number;
+  score: number;
+};
+
+// Tallies every comparison between the two items from the first item's
+// point of view, whichever order they were presented in. `score` is the
+// summed outcome score, so graded comparisons count in proportion.
+export function tallyHeadToHead(
+  comparisons: ComparisonRecord[],
+  itemId1: string,
+  itemId2: string
+): PairRecord {
+  const record = { comparisons: 0, wins: 0, losses: 0, ties: 0, score: 0 };
+  comparisons.forEach((comparison) => {
+    let score: number;
+    if (comparison.itemId1 === itemId1 && comparison.itemId2 === itemId2) {
+      score = outcomeScore(comparison);
+    } else if (
+      comparison.itemId1 === itemId2 &&
+      comparison.itemId2 === itemId1
+    ) {
+      score = 1 - outcomeScore(comparison);
+    } else {
+      return;
+    }
+    record.comparisons++;
+    record.score += score;
+    if (score > 0.5) record.wins++;
+    else if (score < 0.5) record.losses++;
+    else record.ties++;
+  });
+  return record;
+}
+
+// wins[i][j] counts the comparisons item i won against item j, so
+// losses[i][j] is wins[j][i].
+export function tallyPairwise(
+  ids: string[],
+  comparisons: ComparisonRecord[]
+): { wins: number[][]; ties: number[][] } {
+  const index = new Map(ids.map((id, position) => [id, position]));
+  const wins = ids.map(() => ids.map(() => 0));
+  const ties = ids.map(() => ids.map(() => 0));
+
+  comparisons.forEach((comparison) => {
+    const i = index.get(comparison.itemId1);
+    const j = index.get(comparison.itemId2);
+    if (i === undefined || j === undefined) return;
+    const score = outcomeScore(comparison);
+    if (score > 0.5) wins[i][j]++;
+    else if (score < 0.5) wins[j][i]++;
+    else {
+      ties[i][j]++;
+      ties[j][i]++;
+    }
+  });
+  return { wins, ties };
+}
@@ -0,0 +1,64 @@
+import { GLICKO2_SCALE } from "./ratingModels";
+import { RankableItem, RankerConfig, RatingUpdate } from "./types";
+
+// Whole inactivity periods since the item was last compared, so items that
+// are compared regularly never decay.
+export function inactivePeriods(
+  item: RankableItem,
+  now: number,
+  config: RankerConfig
+): number {
+  if (item.lastComparisonTime === null) return 0;
+  return Math.max(
+    0,
+    Math.floor((now - item.lastComparisonTime) / config.inactivityPeriod)
+  );
+}
+
+export function isStale(
+  item: RankableItem,
+  now: number,
+  config: RankerConfig
+): boolean {
+  return (
+    config.inactivityDecay !== "none" && inactivePeriods(item, now, config) > 0
+  );
+}
+
+// "uncertainty" follows Glicko-2 for rating periods without games: the
+// deviation grows by the item's volatility once per idle period, up to the
+// deviation of a new item. "rating" moves the rating a fixed fraction of the
+// way back to `defaultInitialRating` per idle period.
+export function inactivityUpdate(
+  item: RankableItem,
+  now: number,
+  config: RankerConfig
+): RatingUpdate | null {
+  const periods = inactivePeriods(item, now, config);
+  if (periods === 0) return null;
+
+  if (config.inactivityDecay === "rating") {
+    const mean = config.defaultInitialRating;
+    return {
+      rating:
+        mean +
+        (item.currentRating - mean) *
+          Math.pow(1 - config.ratingDecayRate, periods),
+    };
+  }
+  if (
+    config.inactivityDecay === "uncertainty" &&
+    item.ratingDeviation !== undefined
+  ) {
+    const growth =
+      (item.volatility ?? config.initialVolatility) * GLICKO2_SCALE;
+    return {
+      rating: item.currentRating,
+      ratingDeviation: Math.min(
+        Math.sqrt(item.ratingDeviation ** 2 + periods * growth ** 2),
+        Math.max(item.ratingDeviation, config.initialRatingDeviation)
+      ),
+    };
+  }
+  return null;
+}
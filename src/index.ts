@@ -1,2 +1,69 @@
 export { Ranker } from "./Ranker";
-export type { ComparisonResult, RankerConfig, RankableItem } from "./types";
+export { MultiCriteriaRanker } from "./MultiCriteriaRanker";
+export { fitBradleyTerry } from "./bradleyTerry";
+export { exportRankings, importComparisons } from "./formats";
+export { computeJudgeStats } from "./judges";
+export { EloRatingModel, Glicko2RatingModel } from "./ratingModels";
+export {
+  HeuristicSelectionStrategy,
+  InformationGainSelectionStrategy,
+  RandomSelectionStrategy,
+  RoundRobinSelectionStrategy,
+  SwissSelectionStrategy,
+  TopKSelectionStrategy,
+} from "./selectionStrategies";
+export { SNAPSHOT_VERSION } from "./snapshot";
+export { runTournament } from "./tournament";
+export type {
+  AggregateRanking,
+  BradleyTerryFit,
+  BradleyTerryOptions,
+  CompareFunction,
+  ComparisonAmendment,
+  ComparisonField,
+  ComparisonImportOptions,
+  ComparisonOutcome,
+  ComparisonRecord,
+  ComparisonResult,
+  ConsistencyOptions,
+  ConsistencyReport,
+  ConvergenceOptions,
+  ConvergenceReport,
+  CriterionComparisonResult,
+  CriterionRanker,
+  FileFormat,
+  HeadToHead,
+  ItemDetails,
+  ItemFilter,
+  ItemMetadata,
+  ItemStats,
+  ItemUncertainty,
+  JudgeStats,
+  MultiCriteriaSnapshot,
+  NextComparisonOptions,
+  PairwiseMatrix,
+  PositionBias,
+  RankerConfig,
+  RankableItem,
+  RankerEvent,
+  RankerEventMap,
+  RankerOptions,
+  RankerSnapshot,
+  RankingExportOptions,
+  RankingOptions,
+  RatingModel,
+  RatingUpdate,
+  SelectionContext,
+  SelectionStrategy,
+  StatsOptions,
+  SuspectComparison,
+  Tier,
+  TierOptions,
+  TopKItemStatus,
+  TopKStatus,
+  TournamentJudgment,
+  TournamentOptions,
+  TournamentProgress,
+  TournamentResult,
+  UncertaintyOptions,
+} from "./types";
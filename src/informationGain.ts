@@ -0,0 +1,87 @@
+import { RankableItem, RankerConfig } from "./types";
+
+// 10-point Gauss-Hermite quadrature (physicists' convention).
+const HERMITE_NODES = [
+  0.3429013272237046, 1.0366108297895137, 1.7566836492998818,
+  2.5327316742327897, 3.4361591188377376,
+];
+const HERMITE_WEIGHTS = [
+  0.6108626337353258, 0.2401386110823147, 0.0338743944554811,
+  0.0013436457467812, 0.0000076404328552,
+];
+
+export function ratingDeviation(
+  item: RankableItem,
+  config: RankerConfig
+): number {
+  return (
+    item.ratingDeviation ??
+    config.initialRatingDeviation / Math.sqrt(1 + item.comparisons)
+  );
+}
+
+// Abramowitz and Stegun 7.1.26, accurate to about 1e-7.
+export function normalCdf(x: number): number {
+  const t = 1 / (1 + (0.3275911 * Math.abs(x)) / Math.SQRT2);
+  const erfc =
+    t *
+    (0.254829592 +
+      t *
+        (-0.284496736 +
+          t * (1.421413741 + t * (-1.453152027 + t * 1.061405429)))) *
+    Math.exp((-x * x) / 2);
+  return x >= 0 ? 1 - erfc / 2 : erfc / 2;
+}
+
+// Probability that `item` is truly rated above `other`, treating both
+// ratings as independent Gaussians with the items' rating deviations.
+export function separation(
+  item: RankableItem,
+  other: RankableItem,
+  config: RankerConfig
+): number {
+  const spread = Math.hypot(
+    ratingDeviation(item, config),
+    ratingDeviation(other, config)
+  );
+  return normalCdf((item.currentRating - other.currentRating) / spread);
+}
+
+function binaryEntropy(p: number): number {
+  if (p <= 0 || p >= 1) return 0;
+  return -p * Math.log2(p) - (1 - p) * Math.log2(1 - p);
+}
+
+function winProbability(ratingDifference: number): number {
+  return 1 / (1 + Math.pow(10, -ratingDifference / 400));
+}
+
+// Treats each rating as Gaussian with the item's deviation and returns the
+// mutual information (in bits) between the outcome of comparing the pair
+// and their true rating difference: H(E[p]) - E[H(p)].
+export function expectedInformationGain(
+  item: RankableItem,
+  opponent: RankableItem,
+  config: RankerConfig
+): number {
+  const mean = item.currentRating - opponent.currentRating;
+  const spread =
+    Math.SQRT2 *
+    Math.hypot(
+      ratingDeviation(item, config),
+      ratingDeviation(opponent, config)
+    );
+
+  let expectedProbability = 0;
+  let expectedEntropy = 0;
+  HERMITE_NODES.forEach((node, index) => {
+    const weight = HERMITE_WEIGHTS[index] / Math.sqrt(Math.PI);
+    [mean + spread * node, mean - spread * node].forEach((difference) => {
+      const probability = winProbability(difference);
+      expectedProbability += weight * probability;
+      expectedEntropy += weight * binaryEntropy(probability);
+    });
+  });
+
+  return binaryEntropy(expectedProbability) - expectedEntropy;
+}
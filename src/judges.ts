@@ -0,0 +1,92 @@
+import { outcomeScore } from "./outcomes";
+import { ComparisonRecord, JudgeStats } from "./types";
+
+type PairTally = { total: number; count: number };
+
+// Outcome scores are oriented towards the pair member with the smaller id so
+// that judgments presented in either order can be compared.
+function orientedScore(comparison: ComparisonRecord): [string, number] {
+  const score = outcomeScore(comparison);
+  return comparison.itemId1 < comparison.itemId2
+    ? [`${comparison.itemId1}\u0000${comparison.itemId2}`, score]
+    : [`${comparison.itemId2}\u0000${comparison.itemId1}`, 1 - score];
+}
+
+function roundOutcome(score: number): number {
+  return score > 0.5 ? 1 : score < 0.5 ? 0 : 0.5;
+}
+
+// Agreement compares each judgment with the majority outcome of every other
+// judge on the same pair (1 for a match, 0.5 when exactly one side is a tie).
+// Reliability rescales agreement so that chance-level agreement maps to 0 and
+// full agreement to 1, starting from two pseudo-judgments of full agreement
+// so that judges with little overlap are trusted until shown otherwise.
+export function computeJudgeStats(
+  comparisons: ComparisonRecord[]
+): Array<Omit<JudgeStats, "weight">> {
+  const pairs = new Map<string, PairTally>();
+  const judges = new Map<string, Map<string, number[]>>();
+  let ties = 0;
+
+  comparisons.forEach((comparison) => {
+    const [key, score] = orientedScore(comparison);
+    const pair = pairs.get(key) ?? { total: 0, count: 0 };
+    pair.total += score;
+    pair.count++;
+    pairs.set(key, pair);
+    if (comparison.result === "tie") ties++;
+
+    if (comparison.judgeId === undefined) return;
+    const judgments = judges.get(comparison.judgeId) ?? new Map();
+    judgments.set(key, [...(judgments.get(key) ?? []), score]);
+    judges.set(comparison.judgeId, judgments);
+  });
+
+  const overallTieRate = comparisons.length ? ties / comparisons.length : 0;
+
+  return Array.from(judges.entries()).map(([judgeId, judgments]) => {
+    let count = 0;
+    let tieCount = 0;
+    let agreement = 0;
+    let overlaps = 0;
+    let consistent = 0;
+    let repeats = 0;
+
+    judgments.forEach((scores, key) => {
+      const pair = pairs.get(key)!;
+      const ownTotal = scores.reduce((sum, score) => sum + score, 0);
+      const othersCount = pair.count - scores.length;
+
+      count += scores.length;
+      tieCount += scores.filter((score) => score === 0.5).length;
+
+      if (othersCount > 0) {
+        const consensus = roundOutcome((pair.total - ownTotal) / othersCount);
+        scores.forEach((score) => {
+          agreement += 1 - Math.abs(score - consensus);
+          overlaps++;
+        });
+      }
+
+      for (let i = 0; i < scores.length; i++) {
+        for (let j = i + 1; j < scores.length; j++) {
+          if (scores[i] === scores[j]) consistent++;
+          repeats++;
+        }
+      }
+    });
+
+    const tieRate = tieCount / count;
+    const smoothedAgreement = (agreement + 2) / (overlaps + 2);
+
+    return {
+      judgeId,
+      comparisons: count,
+      agreementWithConsensus: overlaps ? agreement / overlaps : null,
+      selfConsistency: repeats ? consistent / repeats : null,
+      tieRate,
+      tieBias: tieRate - overallTieRate,
+      reliability: Math.max(0, 2 * smoothedAgreement - 1),
+    };
+  });
+}
@@ -0,0 +1,33 @@
+import { RankableItem, RankerConfig } from "./types";
+
+export function isProvisional(
+  item: RankableItem,
+  config: RankerConfig
+): boolean {
+  return item.comparisons < config.provisionalComparisons;
+}
+
+// Established items use the K of the highest rating bracket they reach, or
+// `kFactor` below every bracket. Provisional items use `provisionalKFactor`,
+// which with `kFactorDecay` eases linearly towards the established K over
+// the provisional period instead of dropping at its end.
+export function scheduledKFactor(
+  item: RankableItem,
+  config: RankerConfig
+): number {
+  const bracket = [...config.kFactorBrackets]
+    .sort((a, b) => b.minRating - a.minRating)
+    .find(({ minRating }) => item.currentRating >= minRating);
+  const established = bracket?.kFactor ?? config.kFactor;
+
+  if (config.provisionalKFactor === null || !isProvisional(item, config)) {
+    return established;
+  }
+  if (!config.kFactorDecay) return config.provisionalKFactor;
+
+  const progress = item.comparisons / config.provisionalComparisons;
+  return (
+    config.provisionalKFactor +
+    (established - config.provisionalKFactor) * progress
+  );
+}
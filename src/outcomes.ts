@@ -0,0 +1,55 @@
+import { ComparisonAmendment, ComparisonOutcome } from "./types";
+
+// Graded comparisons carry a score in [0, 1] for the first item; grades are
+// looked up in the configured scale when the comparison is recorded. The
+// win/loss/tie result is derived from the score so the counters stay
+// meaningful: any preference above 0.5 counts as a win.
+export function resolveOutcome(
+  outcome: ComparisonAmendment,
+  gradeScale: Record<string, number>
+): ComparisonOutcome {
+  if (outcome.grade !== undefined && outcome.score !== undefined) {
+    throw new Error("Comparison cannot have both a score and a grade");
+  }
+
+  let score = outcome.score;
+  if (outcome.grade !== undefined) {
+    if (!Object.prototype.hasOwnProperty.call(gradeScale, outcome.grade)) {
+      throw new Error(`Unknown grade ${outcome.grade}`);
+    }
+    score = gradeScale[outcome.grade];
+  }
+
+  if (score === undefined) {
+    if (outcome.result === undefined) {
+      throw new Error("Comparison must have a result, score or grade");
+    }
+    return { result: outcome.result };
+  }
+
+  if (!(score >= 0 && score <= 1)) {
+    throw new Error("Comparison score must be between 0 and 1");
+  }
+  const result = score > 0.5 ? "win" : score < 0.5 ? "loss" : "tie";
+  if (outcome.result !== undefined && outcome.result !== result) {
+    throw new Error(
+      `Comparison result ${outcome.result} does not match score ${score}`
+    );
+  }
+
+  return outcome.grade === undefined
+    ? { result, score }
+    : { result, score, grade: outcome.grade };
+}
+
+export function outcomeScore(outcome: ComparisonOutcome): number {
+  if (outcome.score !== undefined) return outcome.score;
+  switch (outcome.result) {
+    case "win":
+      return 1;
+    case "loss":
+      return 0;
+    case "tie":
+      return 0.5;
+  }
+}
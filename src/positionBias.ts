@@ -0,0 +1,52 @@
+import { outcomeScore } from "./outcomes";
+import { ComparisonRecord, PositionBias } from "./types";
+
+export type SlotTally = { score: number; count: number };
+
+export function tallyFirstSlot(comparisons: ComparisonRecord[]): SlotTally {
+  return comparisons.reduce(
+    (tally, comparison) => ({
+      score: tally.score + outcomeScore(comparison),
+      count: tally.count + 1,
+    }),
+    { score: 0, count: 0 }
+  );
+}
+
+// The first-slot advantage in rating points is the Elo-scale logit of the
+// first item's average score, with one pseudo-win and one pseudo-loss so
+// that it starts at zero and stays finite. It assumes each item appears in
+// both slots about equally often, which balancePresentation arranges.
+export function positionAdvantage({ score, count }: SlotTally): number {
+  return 400 * Math.log10((score + 1) / (count - score + 1));
+}
+
+export function computePositionBias(
+  comparisons: ComparisonRecord[],
+  corrected: boolean
+): PositionBias {
+  const tally = tallyFirstSlot(comparisons);
+  return {
+    comparisons: tally.count,
+    firstPositionScore: tally.count ? tally.score / tally.count : null,
+    advantage: positionAdvantage(tally),
+    corrected,
+  };
+}
+
+// Puts the item that has been shown first more often in the second slot.
+export function balancePresentation(
+  [itemId1, itemId2]: [string, string],
+  comparisons: ComparisonRecord[]
+): [string, string] {
+  const balance = (id: string) =>
+    comparisons.reduce(
+      (sum, comparison) =>
+        sum +
+        (comparison.itemId1 === id ? 1 : comparison.itemId2 === id ? -1 : 0),
+      0
+    );
+  return balance(itemId1) > balance(itemId2)
+    ? [itemId2, itemId1]
+    : [itemId1, itemId2];
+}
@@ -0,0 +1,22 @@
+// Mulberry32: a small, fast PRNG whose whole state is one 32-bit integer,
+// which makes it cheap to persist and resume.
+export class SeededRandom {
+  state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+}
+
+export function createSeededRandom(seed: number): () => number {
+  const random = new SeededRandom(seed);
+  return () => random.next();
+}
@@ -0,0 +1,144 @@
+import { RankableItem, RankerConfig, RatingModel, RatingUpdate } from "./types";
+
+export class EloRatingModel implements RatingModel {
+  readonly name = "elo";
+
+  initialize(): void {}
+
+  expectedScore(item: RankableItem, opponent: RankableItem): number {
+    return (
+      1 /
+      (1 + Math.pow(10, (opponent.currentRating - item.currentRating) / 400))
+    );
+  }
+
+  rate(
+    item: RankableItem,
+    opponent: RankableItem,
+    score: number,
+    config: RankerConfig
+  ): RatingUpdate {
+    const expectedScore = this.expectedScore(item, opponent);
+    return {
+      rating: item.currentRating + config.kFactor * (score - expectedScore),
+    };
+  }
+}
+
+export const GLICKO2_SCALE = 173.7178;
+const GLICKO2_CENTER = 1500;
+const CONVERGENCE_TOLERANCE = 0.000001;
+
+function g(phi: number): number {
+  return 1 / Math.sqrt(1 + (3 * phi * phi) / (Math.PI * Math.PI));
+}
+
+export class Glicko2RatingModel implements RatingModel {
+  readonly name = "glicko2";
+
+  initialize(item: RankableItem, config: RankerConfig): void {
+    item.ratingDeviation = config.initialRatingDeviation;
+    item.volatility = config.initialVolatility;
+  }
+
+  expectedScore(item: RankableItem, opponent: RankableItem): number {
+    const phi = Math.hypot(
+      item.ratingDeviation ?? 0,
+      opponent.ratingDeviation ?? 0
+    );
+    const mu = (item.currentRating - opponent.currentRating) / GLICKO2_SCALE;
+    return 1 / (1 + Math.exp(-g(phi / GLICKO2_SCALE) * mu));
+  }
+
+  // Each comparison is treated as its own rating period containing a
+  // single game, following Glickman's "Example of the Glicko-2 system".
+  rate(
+    item: RankableItem,
+    opponent: RankableItem,
+    score: number,
+    config: RankerConfig
+  ): RatingUpdate {
+    const mu = (item.currentRating - GLICKO2_CENTER) / GLICKO2_SCALE;
+    const phi =
+      (item.ratingDeviation ?? config.initialRatingDeviation) / GLICKO2_SCALE;
+    const sigma = item.volatility ?? config.initialVolatility;
+    const opponentMu =
+      (opponent.currentRating - GLICKO2_CENTER) / GLICKO2_SCALE;
+    const opponentPhi =
+      (opponent.ratingDeviation ?? config.initialRatingDeviation) /
+      GLICKO2_SCALE;
+
+    const gPhi = g(opponentPhi);
+    const expectedScore = 1 / (1 + Math.exp(-gPhi * (mu - opponentMu)));
+    const v = 1 / (gPhi * gPhi * expectedScore * (1 - expectedScore));
+    const delta = v * gPhi * (score - expectedScore);
+
+    const newSigma = this.updateVolatility(
+      phi,
+      sigma,
+      v,
+      delta,
+      config.volatilityConstraint
+    );
+    const phiStar = Math.sqrt(phi * phi + newSigma * newSigma);
+    const newPhi = 1 / Math.sqrt(1 / (phiStar * phiStar) + 1 / v);
+    const newMu = mu + newPhi * newPhi * gPhi * (score - expectedScore);
+
+    return {
+      rating: newMu * GLICKO2_SCALE + GLICKO2_CENTER,
+      ratingDeviation: newPhi * GLICKO2_SCALE,
+      volatility: newSigma,
+    };
+  }
+
+  private updateVolatility(
+    phi: number,
+    sigma: number,
+    v: number,
+    delta: number,
+    tau: number
+  ): number {
+    const a = Math.log(sigma * sigma);
+    const f = (x: number) => {
+      const ex = Math.exp(x);
+      const denominator = phi * phi + v + ex;
+      return (
+        (ex * (delta * delta - phi * phi - v - ex)) /
+          (2 * denominator * denominator) -
+        (x - a) / (tau * tau)
+      );
+    };
+
+    let A = a;
+    let B: number;
+    if (delta * delta > phi * phi + v) {
+      B = Math.log(delta * delta - phi * phi - v);
+    } else {
+      let k = 1;
+      while (f(a - k * tau) < 0) k++;
+      B = a - k * tau;
+    }
+
+    let fA = f(A);
+    let fB = f(B);
+    while (Math.abs(B - A) > CONVERGENCE_TOLERANCE) {
+      const C = A + ((A - B) * fA) / (fB - fA);
+      const fC = f(C);
+      if (fC * fB <= 0) {
+        A = B;
+        fA = fB;
+      } else {
+        fA = fA / 2;
+      }
+      B = C;
+      fB = fC;
+    }
+
+    return Math.exp(A / 2);
+  }
+}
+
+export const builtInRatingModels: RatingModel[] = [
+  new EloRatingModel(),
+  new Glicko2RatingModel(),
+];
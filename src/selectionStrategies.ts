@@ -0,0 +1,220 @@
+import { expectedInformationGain } from "./informationGain";
+import { createSeededRandom } from "./random";
+import { leastSettledTopKPair } from "./topK";
+import {
+  ComparisonRecord,
+  RankableItem,
+  SelectionContext,
+  SelectionStrategy,
+} from "./types";
+
+function pairKey(id1: string, id2: string): string {
+  return id1 < id2 ? `${id1}\u0000${id2}` : `${id2}\u0000${id1}`;
+}
+
+function countPairings(comparisons: ComparisonRecord[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  comparisons.forEach((comparison) => {
+    const key = pairKey(comparison.itemId1, comparison.itemId2);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  });
+  return counts;
+}
+
+export class HeuristicSelectionStrategy implements SelectionStrategy {
+  readonly name = "heuristic";
+
+  selectPair(context: SelectionContext): [string, string] | null {
+    const items = [...context.items].sort(
+      (a, b) => a.comparisons - b.comparisons
+    );
+    const leastComparedItem = items[0];
+    const bestOpponent = this.findBestOpponent(
+      leastComparedItem,
+      items,
+      context
+    );
+
+    return [leastComparedItem.id, bestOpponent.id];
+  }
+
+  private findBestOpponent(
+    item: RankableItem,
+    allItems: RankableItem[],
+    context: SelectionContext
+  ): RankableItem {
+    const potentialOpponents = allItems.filter(
+      (opponent) => opponent.id !== item.id
+    );
+
+    if (potentialOpponents.length === 0) {
+      throw new Error("No potential opponents found");
+    }
+
+    const scoredOpponents = potentialOpponents.map((opponent) => ({
+      opponent,
+      score: this.calculateOpponentScore(item, opponent, context),
+    }));
+
+    scoredOpponents.sort((a, b) => b.score - a.score);
+
+    const bestOpponents = scoredOpponents.filter(
+      ({ score }) => score === scoredOpponents[0].score
+    );
+    if (!context.random) return bestOpponents[0].opponent;
+    return bestOpponents[Math.floor(context.random() * bestOpponents.length)]
+      .opponent;
+  }
+
+  private calculateOpponentScore(
+    item: RankableItem,
+    opponent: RankableItem,
+    context: SelectionContext
+  ): number {
+    const ratingDifference = Math.abs(
+      item.currentRating - opponent.currentRating
+    );
+    const comparisonDifference = Math.abs(
+      item.comparisons - opponent.comparisons
+    );
+
+    const ratingScore = 1 / (1 + ratingDifference / 400);
+    const comparisonScore = 1 / (1 + comparisonDifference);
+    const timeScore = this.getTimeScore(opponent, context);
+
+    return 0.4 * ratingScore + 0.4 * comparisonScore + 0.2 * timeScore;
+  }
+
+  private getTimeScore(item: RankableItem, context: SelectionContext): number {
+    if (!item.lastComparisonTime) return 1;
+
+    const timeSinceLastComparison = context.now - item.lastComparisonTime;
+    return Math.min(
+      timeSinceLastComparison / context.config.inactivityPeriod,
+      1
+    );
+  }
+}
+
+export class InformationGainSelectionStrategy implements SelectionStrategy {
+  readonly name = "information-gain";
+
+  selectPair({ items, config }: SelectionContext): [string, string] | null {
+    let bestPair: [string, string] | null = null;
+    let bestGain = config.minimumInformationGain;
+
+    for (let i = 0; i < items.length; i++) {
+      for (let j = i + 1; j < items.length; j++) {
+        const gain = expectedInformationGain(items[i], items[j], config);
+        if (gain > bestGain) {
+          bestGain = gain;
+          bestPair = [items[i].id, items[j].id];
+        }
+      }
+    }
+
+    return bestPair;
+  }
+}
+
+// Cycles through every pair: the next pair is always one that has met the
+// fewest times, preferring items that have been compared least overall.
+export class RoundRobinSelectionStrategy implements SelectionStrategy {
+  readonly name = "round-robin";
+
+  selectPair({ items, comparisons }: SelectionContext): [string, string] {
+    const pairings = countPairings(comparisons);
+    let bestPair: [string, string] = [items[0].id, items[1].id];
+    let bestMeetings = Infinity;
+    let bestWorkload = Infinity;
+
+    for (let i = 0; i < items.length; i++) {
+      for (let j = i + 1; j < items.length; j++) {
+        const meetings = pairings.get(pairKey(items[i].id, items[j].id)) ?? 0;
+        const workload = items[i].comparisons + items[j].comparisons;
+        if (
+          meetings < bestMeetings ||
+          (meetings === bestMeetings && workload < bestWorkload)
+        ) {
+          bestMeetings = meetings;
+          bestWorkload = workload;
+          bestPair = [items[i].id, items[j].id];
+        }
+      }
+    }
+
+    return bestPair;
+  }
+}
+
+// Swiss-system rounds: items that have played the fewest comparisons are
+// still waiting in the current round. The highest scorer among them meets
+// the closest-scoring waiting item it has faced least often; an odd item
+// out is paired with the closest-scoring item overall.
+export class SwissSelectionStrategy implements SelectionStrategy {
+  readonly name = "swiss";
+
+  selectPair({ items, comparisons }: SelectionContext): [string, string] {
+    const pairings = countPairings(comparisons);
+    const score = (item: RankableItem) => item.wins + item.ties / 2;
+    const byScore = [...items].sort(
+      (a, b) => score(b) - score(a) || b.currentRating - a.currentRating
+    );
+
+    const round = Math.min(...items.map((item) => item.comparisons));
+    const waiting = byScore.filter((item) => item.comparisons === round);
+    const item = waiting[0];
+    const candidates =
+      waiting.length > 1
+        ? waiting.slice(1)
+        : byScore.filter((other) => other.id !== item.id);
+
+    const meetings = (other: RankableItem) =>
+      pairings.get(pairKey(item.id, other.id)) ?? 0;
+    const gap = (other: RankableItem) => Math.abs(score(item) - score(other));
+    const [opponent] = [...candidates].sort(
+      (a, b) => meetings(a) - meetings(b) || gap(a) - gap(b)
+    );
+
+    return [item.id, opponent.id];
+  }
+}
+
+export class RandomSelectionStrategy implements SelectionStrategy {
+  readonly name = "random";
+  private random?: () => number;
+
+  constructor(seed?: number) {
+    if (seed !== undefined) this.random = createSeededRandom(seed);
+  }
+
+  selectPair({ items, random }: SelectionContext): [string, string] {
+    const next = this.random ?? random ?? Math.random;
+    const first = Math.floor(next() * items.length);
+    let second = Math.floor(next() * (items.length - 1));
+    if (second >= first) second++;
+    return [items[first].id, items[second].id];
+  }
+}
+
+// Concentrates comparisons on the boundary of the best `config.topK` items
+// and stops suggesting pairs once that boundary is settled.
+export class TopKSelectionStrategy implements SelectionStrategy {
+  readonly name = "top-k";
+
+  selectPair({ items, config }: SelectionContext): [string, string] | null {
+    if (config.topK === null) {
+      throw new Error("Top-K selection requires config.topK");
+    }
+    return leastSettledTopKPair(items, config.topK, config);
+  }
+}
+
+export const builtInSelectionStrategies: SelectionStrategy[] = [
+  new HeuristicSelectionStrategy(),
+  new InformationGainSelectionStrategy(),
+  new RoundRobinSelectionStrategy(),
+  new SwissSelectionStrategy(),
+  new RandomSelectionStrategy(),
+  new TopKSelectionStrategy(),
+];
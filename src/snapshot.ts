@@ -0,0 +1,387 @@
+import { resolveConfig } from "./config";
+import {
+  ItemDetails,
+  RankableItem,
+  RankerConfig,
+  RankerEvent,
+  RankerSnapshot,
+} from "./types";
+
+export const SNAPSHOT_VERSION = 2;
+
+type Migration = (snapshot: any) => any;
+
+// Keyed by the version a migration upgrades from. Version 0 is the bare
+// item array returned by getAllItems(), which is how state was kept before
+// snapshots existed.
+const migrations: Record<number, Migration> = {
+  0: (items: any[]) => ({
+    version: 1,
+    config: resolveConfig({}),
+    items,
+  }),
+  // Version 1 predates the event log, so the only history that can be
+  // recovered is which items exist. Rebuilding a migrated snapshot resets
+  // those items to their initial ratings.
+  1: (snapshot) => ({
+    ...snapshot,
+    version: 2,
+    events: snapshot.items.map((item: any, sequence: number) => ({
+      type: "itemAdded",
+      sequence,
+      timestamp: 0,
+      itemId: item.id,
+      initialRating: item.initialRating,
+    })),
+  }),
+};
+
+function getVersion(data: any): number {
+  if (Array.isArray(data)) return 0;
+  if (typeof data !== "object" || data === null) {
+    throw new Error("Invalid snapshot: expected an object");
+  }
+  if (!Number.isInteger(data.version) || data.version < 0) {
+    throw new Error("Invalid snapshot: version must be a non-negative integer");
+  }
+  return data.version;
+}
+
+export function migrateSnapshot(data: unknown): RankerSnapshot {
+  let snapshot: any = data;
+  let version = getVersion(snapshot);
+
+  if (version > SNAPSHOT_VERSION) {
+    throw new Error(
+      `Unsupported snapshot version ${version} (latest is ${SNAPSHOT_VERSION})`
+    );
+  }
+
+  while (version < SNAPSHOT_VERSION) {
+    const migrate = migrations[version];
+    if (!migrate) {
+      throw new Error(`No migration from snapshot version ${version}`);
+    }
+    snapshot = migrate(snapshot);
+    version = getVersion(snapshot);
+  }
+
+  validateSnapshot(snapshot);
+  return snapshot;
+}
+
+function expectNumber(value: unknown, path: string): void {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    throw new Error(`Invalid snapshot: ${path} must be a finite number`);
+  }
+}
+
+function expectNullableNumber(value: unknown, path: string): void {
+  if (value !== null) expectNumber(value, path);
+}
+
+function expectOptionalNumber(value: unknown, path: string): void {
+  if (value !== undefined) expectNumber(value, path);
+}
+
+function expectNumberRecord(value: unknown, path: string): void {
+  if (typeof value !== "object" || value === null) {
+    throw new Error(`Invalid snapshot: ${path} must be an object`);
+  }
+  Object.entries(value).forEach(([key, entry]) =>
+    expectNumber(entry, `${path}.${key}`)
+  );
+}
+
+function validateConfig(config: any): asserts config is RankerConfig {
+  if (typeof config !== "object" || config === null) {
+    throw new Error("Invalid snapshot: config must be an object");
+  }
+  expectNumber(config.kFactor, "config.kFactor");
+  expectNumber(config.minimumComparisons, "config.minimumComparisons");
+  expectNumber(config.defaultInitialRating, "config.defaultInitialRating");
+  expectNumber(config.minRating, "config.minRating");
+  if (
+    config.ratingModel !== undefined &&
+    typeof config.ratingModel !== "string"
+  ) {
+    throw new Error("Invalid snapshot: config.ratingModel must be a string");
+  }
+  expectOptionalNumber(
+    config.initialRatingDeviation,
+    "config.initialRatingDeviation"
+  );
+  expectOptionalNumber(config.initialVolatility, "config.initialVolatility");
+  expectOptionalNumber(
+    config.volatilityConstraint,
+    "config.volatilityConstraint"
+  );
+  if (
+    config.selectionMode !== undefined &&
+    typeof config.selectionMode !== "string"
+  ) {
+    throw new Error("Invalid snapshot: config.selectionMode must be a string");
+  }
+  expectOptionalNumber(
+    config.minimumInformationGain,
+    "config.minimumInformationGain"
+  );
+  if (config.seed !== undefined) {
+    expectNullableNumber(config.seed, "config.seed");
+  }
+  if (
+    config.judgeWeighting !== undefined &&
+    !["none", "reliability"].includes(config.judgeWeighting)
+  ) {
+    throw new Error(
+      "Invalid snapshot: config.judgeWeighting must be none or reliability"
+    );
+  }
+  if (config.judgeWeights !== undefined) {
+    expectNumberRecord(config.judgeWeights, "config.judgeWeights");
+  }
+  if (config.gradeScale !== undefined) {
+    expectNumberRecord(config.gradeScale, "config.gradeScale");
+  }
+  if (config.topK !== undefined) {
+    expectNullableNumber(config.topK, "config.topK");
+  }
+  expectOptionalNumber(config.topKConfidence, "config.topKConfidence");
+  if (
+    config.topKOrdered !== undefined &&
+    typeof config.topKOrdered !== "boolean"
+  ) {
+    throw new Error("Invalid snapshot: config.topKOrdered must be a boolean");
+  }
+  if (
+    config.positionBias !== undefined &&
+    !["none", "estimate"].includes(config.positionBias)
+  ) {
+    throw new Error(
+      "Invalid snapshot: config.positionBias must be none or estimate"
+    );
+  }
+  expectOptionalNumber(
+    config.provisionalComparisons,
+    "config.provisionalComparisons"
+  );
+  if (config.provisionalKFactor !== undefined) {
+    expectNullableNumber(
+      config.provisionalKFactor,
+      "config.provisionalKFactor"
+    );
+  }
+  if (
+    config.kFactorDecay !== undefined &&
+    typeof config.kFactorDecay !== "boolean"
+  ) {
+    throw new Error("Invalid snapshot: config.kFactorDecay must be a boolean");
+  }
+  if (config.kFactorBrackets !== undefined) {
+    if (!Array.isArray(config.kFactorBrackets)) {
+      throw new Error(
+        "Invalid snapshot: config.kFactorBrackets must be an array"
+      );
+    }
+    config.kFactorBrackets.forEach((bracket: any, index: number) => {
+      expectNumber(
+        bracket?.minRating,
+        `config.kFactorBrackets[${index}].minRating`
+      );
+      expectNumber(
+        bracket?.kFactor,
+        `config.kFactorBrackets[${index}].kFactor`
+      );
+    });
+  }
+  if (
+    config.inactivityDecay !== undefined &&
+    !["none", "uncertainty", "rating"].includes(config.inactivityDecay)
+  ) {
+    throw new Error(
+      "Invalid snapshot: config.inactivityDecay must be none, uncertainty or rating"
+    );
+  }
+  expectOptionalNumber(config.inactivityPeriod, "config.inactivityPeriod");
+  expectOptionalNumber(config.ratingDecayRate, "config.ratingDecayRate");
+}
+
+function validateOutcome(outcome: any, path: string): void {
+  if (!["win", "loss", "tie"].includes(outcome.result)) {
+    throw new Error(
+      `Invalid snapshot: ${path}.result must be win, loss or tie`
+    );
+  }
+  expectOptionalNumber(outcome.score, `${path}.score`);
+  if (outcome.grade !== undefined && typeof outcome.grade !== "string") {
+    throw new Error(`Invalid snapshot: ${path}.grade must be a string`);
+  }
+}
+
+function validateItem(item: any, path: string): asserts item is RankableItem {
+  if (typeof item !== "object" || item === null) {
+    throw new Error(`Invalid snapshot: ${path} must be an object`);
+  }
+  if (typeof item.id !== "string") {
+    throw new Error(`Invalid snapshot: ${path}.id must be a string`);
+  }
+  expectNumber(item.initialRating, `${path}.initialRating`);
+  expectNumber(item.currentRating, `${path}.currentRating`);
+  expectNumber(item.comparisons, `${path}.comparisons`);
+  expectNumber(item.wins, `${path}.wins`);
+  expectNumber(item.losses, `${path}.losses`);
+  expectNumber(item.ties, `${path}.ties`);
+  expectNullableNumber(item.lastComparisonTime, `${path}.lastComparisonTime`);
+  expectOptionalNumber(item.ratingDeviation, `${path}.ratingDeviation`);
+  expectOptionalNumber(item.volatility, `${path}.volatility`);
+  if (!Array.isArray(item.ratingHistory)) {
+    throw new Error(`Invalid snapshot: ${path}.ratingHistory must be an array`);
+  }
+  item.ratingHistory.forEach((entry: any, index: number) => {
+    expectNumber(entry?.rating, `${path}.ratingHistory[${index}].rating`);
+    expectNumber(entry?.timestamp, `${path}.ratingHistory[${index}].timestamp`);
+  });
+  validateDetails(item, path);
+}
+
+function validateDetails(details: any, path: string): void {
+  if (
+    details.metadata !== undefined &&
+    (typeof details.metadata !== "object" || details.metadata === null)
+  ) {
+    throw new Error(`Invalid snapshot: ${path}.metadata must be an object`);
+  }
+  if (
+    details.tags !== undefined &&
+    (!Array.isArray(details.tags) ||
+      details.tags.some((tag: unknown) => typeof tag !== "string"))
+  ) {
+    throw new Error(
+      `Invalid snapshot: ${path}.tags must be an array of strings`
+    );
+  }
+}
+
+function validateEvent(event: any, path: string): asserts event is RankerEvent {
+  if (typeof event !== "object" || event === null) {
+    throw new Error(`Invalid snapshot: ${path} must be an object`);
+  }
+  expectNumber(event.sequence, `${path}.sequence`);
+  expectNumber(event.timestamp, `${path}.timestamp`);
+
+  switch (event.type) {
+    case "itemAdded":
+      if (event.initialRating !== undefined) {
+        expectNumber(event.initialRating, `${path}.initialRating`);
+      }
+      validateDetails(event, path);
+    // falls through
+    case "itemRemoved":
+      if (typeof event.itemId !== "string") {
+        throw new Error(`Invalid snapshot: ${path}.itemId must be a string`);
+      }
+      break;
+    case "comparison": {
+      const comparison = event.comparison;
+      if (typeof comparison !== "object" || comparison === null) {
+        throw new Error(
+          `Invalid snapshot: ${path}.comparison must be an object`
+        );
+      }
+      ["id", "itemId1", "itemId2"].forEach((key) => {
+        if (typeof comparison[key] !== "string") {
+          throw new Error(
+            `Invalid snapshot: ${path}.comparison.${key} must be a string`
+          );
+        }
+      });
+      validateOutcome(comparison, `${path}.comparison`);
+      expectNumber(comparison.timestamp, `${path}.comparison.timestamp`);
+      if (
+        comparison.judgeId !== undefined &&
+        typeof comparison.judgeId !== "string"
+      ) {
+        throw new Error(
+          `Invalid snapshot: ${path}.comparison.judgeId must be a string`
+        );
+      }
+      break;
+    }
+    case "comparisonAmended":
+      if (typeof event.changes !== "object" || event.changes === null) {
+        throw new Error(`Invalid snapshot: ${path}.changes must be an object`);
+      }
+      validateOutcome(event.changes, `${path}.changes`);
+    // falls through
+    case "comparisonRetracted":
+      if (typeof event.comparisonId !== "string") {
+        throw new Error(
+          `Invalid snapshot: ${path}.comparisonId must be a string`
+        );
+      }
+      break;
+    default:
+      throw new Error(
+        `Invalid snapshot: ${path}.type ${event.type} is unknown`
+      );
+  }
+}
+
+export function validateSnapshot(
+  snapshot: any
+): asserts snapshot is RankerSnapshot {
+  if (snapshot.version !== SNAPSHOT_VERSION) {
+    throw new Error(
+      `Invalid snapshot: expected version ${SNAPSHOT_VERSION}, got ${snapshot.version}`
+    );
+  }
+  validateConfig(snapshot.config);
+  if (!Array.isArray(snapshot.items)) {
+    throw new Error("Invalid snapshot: items must be an array");
+  }
+
+  const seen = new Set<string>();
+  snapshot.items.forEach((item: any, index: number) => {
+    validateItem(item, `items[${index}]`);
+    if (seen.has(item.id)) {
+      throw new Error(`Invalid snapshot: duplicate item id ${item.id}`);
+    }
+    seen.add(item.id);
+  });
+
+  if (!Array.isArray(snapshot.events)) {
+    throw new Error("Invalid snapshot: events must be an array");
+  }
+  snapshot.events.forEach((event: any, index: number) =>
+    validateEvent(event, `events[${index}]`)
+  );
+  expectOptionalNumber(snapshot.randomState, "randomState");
+}
+
+function cloneDetails<T extends ItemDetails>(details: T): T {
+  return {
+    ...details,
+    ...(details.metadata && { metadata: { ...details.metadata } }),
+    ...(details.tags && { tags: [...details.tags] }),
+  };
+}
+
+export function cloneItem<T extends RankableItem>(item: T): T {
+  return {
+    ...cloneDetails(item),
+    ratingHistory: item.ratingHistory.map((entry) => ({ ...entry })),
+  };
+}
+
+export function cloneEvent(event: RankerEvent): RankerEvent {
+  switch (event.type) {
+    case "comparison":
+      return { ...event, comparison: { ...event.comparison } };
+    case "comparisonAmended":
+      return { ...event, changes: { ...event.changes } };
+    case "itemAdded":
+      return cloneDetails(event);
+    default:
+      return { ...event };
+  }
+}
@@ -0,0 +1,53 @@
+import { separation } from "./informationGain";
+import {
+  ItemMetadata,
+  ItemStats,
+  RankerConfig,
+  Tier,
+  TierOptions,
+} from "./types";
+
+const LETTER_TIERS = ["S", "A", "B", "C", "D", "E", "F"];
+
+// Walks down the ranking and opens a new tier at the first item that is
+// confidently below the current tier's leader, so every item in a tier is
+// indistinguishable from the best item in it. Tiers beyond the last label
+// are merged into the last labelled tier.
+export function assignTiers<M extends ItemMetadata>(
+  ranked: ItemStats<M>[],
+  config: RankerConfig,
+  options: TierOptions<M> = {}
+): Tier<M>[] {
+  const { confidence = 0.95, labels = "numbers" } = options;
+  if (!(confidence > 0 && confidence < 1)) {
+    throw new Error("Tier confidence must be between 0 and 1");
+  }
+  const names = labels === "letters" ? LETTER_TIERS : labels;
+
+  const groups: ItemStats<M>[][] = [];
+  ranked.forEach((item) => {
+    const current = groups[groups.length - 1];
+    if (current && separation(current[0], item, config) < confidence) {
+      current.push(item);
+    } else {
+      groups.push([item]);
+    }
+  });
+
+  if (names === "numbers") {
+    return groups.map((items, index) => ({
+      tier: index + 1,
+      label: String(index + 1),
+      items,
+    }));
+  }
+  if (names.length === 0) {
+    throw new Error("Tier labels must not be empty");
+  }
+  return names.slice(0, groups.length).map((label, index) => ({
+    tier: index + 1,
+    label,
+    items:
+      index === names.length - 1 ? groups.slice(index).flat() : groups[index],
+  }));
+}
@@ -0,0 +1,91 @@
+import { separation } from "./informationGain";
+import { RankableItem, RankerConfig, TopKStatus } from "./types";
+
+function splitTopK(
+  items: RankableItem[],
+  k: number
+): [RankableItem[], RankableItem[]] {
+  const ranked = [...items].sort((a, b) => b.currentRating - a.currentRating);
+  return [ranked.slice(0, k), ranked.slice(k)];
+}
+
+// An item is confidently in the top K when it separates from every item
+// outside it, and confidently out when every item inside separates from it.
+export function computeTopKStatus(
+  items: RankableItem[],
+  k: number,
+  config: RankerConfig
+): TopKStatus {
+  const [inside, outside] = splitTopK(items, k);
+  const confident = (probability: number) =>
+    probability >= config.topKConfidence;
+
+  const insideStatus = inside.map((item, index) => {
+    const confidence = Math.min(
+      1,
+      ...outside.map((other) => separation(item, other, config))
+    );
+    return {
+      id: item.id,
+      rank: index + 1,
+      inTopK: true,
+      confidence,
+      status: confident(confidence) ? ("in" as const) : ("contested" as const),
+    };
+  });
+  const outsideStatus = outside.map((item, index) => {
+    const confidence = Math.min(
+      1,
+      ...inside.map((other) => separation(other, item, config))
+    );
+    return {
+      id: item.id,
+      rank: inside.length + index + 1,
+      inTopK: false,
+      confidence,
+      status: confident(confidence) ? ("out" as const) : ("contested" as const),
+    };
+  });
+
+  return {
+    k,
+    confidence: config.topKConfidence,
+    topK: inside.map((item) => item.id),
+    settled: insideStatus.every((item) => item.status === "in"),
+    orderSettled: inside
+      .slice(1)
+      .every((item, index) =>
+        confident(separation(inside[index], item, config))
+      ),
+    items: [...insideStatus, ...outsideStatus],
+  };
+}
+
+// Returns the least certain pair across the top-K boundary, or, once
+// membership is settled and `config.topKOrdered` is set, the least certain
+// pair of neighbours inside the top K. Returns null when nothing is left
+// to settle.
+export function leastSettledTopKPair(
+  items: RankableItem[],
+  k: number,
+  config: RankerConfig
+): [string, string] | null {
+  const [inside, outside] = splitTopK(items, k);
+  let bestPair: [string, string] | null = null;
+  let lowest = config.topKConfidence;
+
+  const consider = (item: RankableItem, other: RankableItem) => {
+    const probability = separation(item, other, config);
+    if (probability < lowest) {
+      lowest = probability;
+      bestPair = [item.id, other.id];
+    }
+  };
+
+  inside.forEach((item) => outside.forEach((other) => consider(item, other)));
+  if (!bestPair && config.topKOrdered) {
+    inside.slice(1).forEach((item, index) => consider(inside[index], item));
+  }
+
+  return bestPair;
+}
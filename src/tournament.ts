@@ -0,0 +1,161 @@
+import type { Ranker } from "./Ranker";
+import {
+  CompareFunction,
+  TournamentJudgment,
+  TournamentOptions,
+  TournamentResult,
+} from "./types";
+
+function toComparison(
+  [itemId1, itemId2]: [string, string],
+  judgment: TournamentJudgment,
+  timestamp: number
+) {
+  return typeof judgment === "string"
+    ? { itemId1, itemId2, result: judgment, timestamp }
+    : { ...judgment, itemId1, itemId2, timestamp };
+}
+
+// Races one attempt of the compare function against the timeout and the
+// run being aborted; the attempt's signal fires in either case so that
+// compare functions can cancel their own work.
+async function attempt(
+  compare: CompareFunction,
+  [itemId1, itemId2]: [string, string],
+  runSignal: AbortSignal,
+  timeout: number | undefined
+): Promise<TournamentJudgment> {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let onAbort = () => {};
+
+  try {
+    return await Promise.race([
+      compare(itemId1, itemId2, controller.signal),
+      new Promise<never>((_, reject) => {
+        onAbort = () => {
+          controller.abort();
+          reject(new Error("Tournament aborted"));
+        };
+        if (runSignal.aborted) onAbort();
+        runSignal.addEventListener("abort", onAbort);
+        if (timeout !== undefined) {
+          timer = setTimeout(() => {
+            controller.abort();
+            reject(new Error(`Comparison timed out after ${timeout}ms`));
+          }, timeout);
+        }
+      }),
+    ]);
+  } finally {
+    clearTimeout(timer);
+    runSignal.removeEventListener("abort", onAbort);
+  }
+}
+
+// Keeps up to `concurrency` comparisons in flight, never scheduling an item
+// that is already being judged. Once a stop condition is met no new
+// comparisons start; comparisons already in flight are still recorded
+// unless the run was aborted. A comparison that fails on every attempt
+// stops the run and rejects it with the last error.
+export async function runTournament(
+  ranker: Ranker,
+  compare: CompareFunction,
+  options: TournamentOptions = {}
+): Promise<TournamentResult> {
+  const {
+    concurrency = 1,
+    budget = Infinity,
+    retries = 2,
+    timeout,
+    signal,
+    convergence,
+    stopWhen,
+    onProgress,
+    clock = () => ranker.now(),
+  } = options;
+
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  if (signal?.aborted) abort();
+  signal?.addEventListener("abort", abort);
+
+  const running = new Set<Promise<void>>();
+  const inFlight = new Set<string>();
+  let started = 0;
+  let completed = 0;
+  let retryCount = 0;
+  const failures: unknown[] = [];
+  let stopReason: TournamentResult["stopReason"] | null = null;
+
+  const converged = () =>
+    (stopWhen?.(ranker) ?? false) ||
+    (!!convergence &&
+      ranker.getConvergence(convergence === true ? {} : convergence).converged);
+
+  const reportProgress = () =>
+    onProgress?.({
+      completed,
+      inFlight: running.size,
+      retries: retryCount,
+      budget: Number.isFinite(budget) ? budget : null,
+    });
+
+  const judge = async (pair: [string, string]) => {
+    for (let attempts = 0; ; attempts++) {
+      try {
+        return await attempt(compare, pair, controller.signal, timeout);
+      } catch (error) {
+        if (controller.signal.aborted || attempts >= retries) throw error;
+        retryCount++;
+      }
+    }
+  };
+
+  const launch = (pair: [string, string]) => {
+    pair.forEach((id) => inFlight.add(id));
+    started++;
+    const task = judge(pair)
+      .then((judgment) => {
+        if (controller.signal.aborted) return;
+        ranker.addComparisonResult(toComparison(pair, judgment, clock()));
+        completed++;
+      })
+      .catch((error) => {
+        if (!controller.signal.aborted) failures.push(error);
+      })
+      .finally(() => {
+        pair.forEach((id) => inFlight.delete(id));
+        running.delete(task);
+        reportProgress();
+      });
+    running.add(task);
+  };
+
+  try {
+    while (!stopReason && failures.length === 0) {
+      if (controller.signal.aborted) {
+        stopReason = "aborted";
+      } else if (converged()) {
+        stopReason = "converged";
+      } else {
+        while (running.size < concurrency && started < budget) {
+          const pair = ranker.getNextComparison({ exclude: [...inFlight] });
+          if (!pair) break;
+          launch(pair);
+        }
+        if (running.size === 0) {
+          stopReason = started < budget ? "exhausted" : "budget";
+        } else {
+          await Promise.race(running);
+        }
+      }
+    }
+    await Promise.all(running);
+  } finally {
+    signal?.removeEventListener("abort", abort);
+  }
+
+  if (failures.length > 0) throw failures[0];
+  return { completed, retries: retryCount, stopReason: stopReason! };
+}
@@ -1,8 +1,14 @@
+import type { Ranker } from "./Ranker";
+
 export type ComparisonResult = {
+  id?: string;
   itemId1: string;
   itemId2: string;
-  result: "win" | "loss" | "tie";
+  result?: "win" | "loss" | "tie";
+  score?: number;
+  grade?: string;
   timestamp: number;
+  judgeId?: string;
   metadata?: any;
 };
 
@@ -11,9 +17,32 @@ export type RankerConfig = {
   minimumComparisons: number;
   defaultInitialRating: number;
   minRating: number;
+  ratingModel: string;
+  initialRatingDeviation: number;
+  initialVolatility: number;
+  volatilityConstraint: number;
+  selectionMode: string;
+  minimumInformationGain: number;
+  seed: number | null;
+  judgeWeighting: "none" | "reliability";
+  judgeWeights: Record<string, number>;
+  gradeScale: Record<string, number>;
+  topK: number | null;
+  topKConfidence: number;
+  topKOrdered: boolean;
+  positionBias: "none" | "estimate";
+  provisionalComparisons: number;
+  provisionalKFactor: number | null;
+  kFactorDecay: boolean;
+  kFactorBrackets: Array<{ minRating: number; kFactor: number }>;
+  inactivityDecay: "none" | "uncertainty" | "rating";
+  inactivityPeriod: number;
+  ratingDecayRate: number;
 };
 
-export type RankableItem = {
+export type ItemMetadata = Record<string, unknown>;
+
+export type RankableItem<M extends ItemMetadata = ItemMetadata> = {
   id: string;
   initialRating: number;
   currentRating: number;
@@ -23,9 +52,366 @@ export type RankableItem = {
   ties: number;
   lastComparisonTime: number | null;
   ratingHistory: Array<{ rating: number; timestamp: number }>;
+  ratingDeviation?: number;
+  volatility?: number;
+  metadata?: M;
+  tags?: string[];
+};
+
+export type ItemDetails<M extends ItemMetadata = ItemMetadata> = Pick<
+  RankableItem<M>,
+  "metadata" | "tags"
+>;
+
+export type ItemFilter<M extends ItemMetadata = ItemMetadata> = {
+  tags?: string[];
+  filter?: (item: RankableItem<M>) => boolean;
 };
 
 export type ProgressParams = {
   ratingChangeThreshold: number;
   stableComparisonsThreshold: number;
 };
+
+export type ComparisonOutcome = {
+  result: "win" | "loss" | "tie";
+  score?: number;
+  grade?: string;
+};
+
+export type ComparisonRecord = ComparisonResult &
+  ComparisonOutcome & { id: string };
+
+export type ComparisonAmendment = Pick<
+  ComparisonResult,
+  "result" | "score" | "grade"
+>;
+
+export type RankerEvent =
+  | {
+      type: "itemAdded";
+      sequence: number;
+      timestamp: number;
+      itemId: string;
+      initialRating?: number;
+      metadata?: ItemMetadata;
+      tags?: string[];
+    }
+  | {
+      type: "itemRemoved";
+      sequence: number;
+      timestamp: number;
+      itemId: string;
+    }
+  | {
+      type: "comparison";
+      sequence: number;
+      timestamp: number;
+      comparison: ComparisonRecord;
+    }
+  | {
+      type: "comparisonRetracted";
+      sequence: number;
+      timestamp: number;
+      comparisonId: string;
+    }
+  | {
+      type: "comparisonAmended";
+      sequence: number;
+      timestamp: number;
+      comparisonId: string;
+      changes: ComparisonOutcome;
+    };
+
+export type RankerSnapshot = {
+  version: number;
+  config: RankerConfig;
+  items: RankableItem[];
+  events: RankerEvent[];
+  randomState?: number;
+};
+
+export type RatingUpdate = {
+  rating: number;
+  ratingDeviation?: number;
+  volatility?: number;
+};
+
+export type RatingModel = {
+  readonly name: string;
+  initialize(item: RankableItem, config: RankerConfig): void;
+  expectedScore(item: RankableItem, opponent: RankableItem): number;
+  rate(
+    item: RankableItem,
+    opponent: RankableItem,
+    score: number,
+    config: RankerConfig
+  ): RatingUpdate;
+};
+
+export type NextComparisonOptions<M extends ItemMetadata = ItemMetadata> =
+  ItemFilter<M> & {
+    exclude?: string[];
+  };
+
+export type SelectionContext = {
+  items: RankableItem[];
+  comparisons: ComparisonRecord[];
+  config: RankerConfig;
+  now: number;
+  random?: () => number;
+  expectedScore(item: RankableItem, opponent: RankableItem): number;
+};
+
+export type SelectionStrategy = {
+  readonly name: string;
+  selectPair(context: SelectionContext): [string, string] | null;
+};
+
+export type RankerOptions = {
+  ratingModels?: RatingModel[];
+  selectionStrategies?: SelectionStrategy[];
+  clock?: () => number;
+  random?: () => number;
+  progressThresholds?: { params: ProgressParams; thresholds: number[] };
+  onListenerError?: (error: unknown) => void;
+  kFactor?: (item: RankableItem, config: RankerConfig) => number;
+};
+
+export type RankerEventMap = {
+  itemAdded: { item: RankableItem };
+  itemRemoved: { itemId: string };
+  comparisonAdded: { comparison: ComparisonRecord; ratingDelta: number };
+  ratingChanged: { itemId: string; before: number; after: number };
+  rankingChanged: { before: string[]; after: string[] };
+  progressThresholdCrossed: {
+    threshold: number;
+    progress: number;
+    direction: "up" | "down";
+  };
+};
+
+export type BradleyTerryOptions = {
+  maxIterations?: number;
+  tolerance?: number;
+  priorWeight?: number;
+  warmStart?: boolean;
+};
+
+export type BradleyTerryFit = {
+  ratings: Record<string, number>;
+  tieParameter: number;
+  iterations: number;
+  converged: boolean;
+  logLikelihood: number;
+};
+
+export type UncertaintyOptions = {
+  samples?: number;
+  confidence?: number;
+  seed?: number;
+  fit?: BradleyTerryOptions;
+};
+
+export type ItemUncertainty = {
+  ratingInterval: { lower: number; upper: number };
+  confidence: number;
+  rankProbabilities: number[];
+  expectedRank: number;
+  rankInterval: { best: number; worst: number };
+  probabilityAboveNext?: number;
+};
+
+export type ItemStats<M extends ItemMetadata = ItemMetadata> =
+  RankableItem<M> & {
+    provisional: boolean;
+    uncertainty?: ItemUncertainty;
+  };
+
+export type StatsOptions = {
+  uncertainty?: UncertaintyOptions | boolean;
+};
+
+export type RankingOptions<M extends ItemMetadata = ItemMetadata> =
+  StatsOptions &
+    ItemFilter<M> & {
+      method?: "online" | "bradley-terry";
+      fit?: BradleyTerryOptions;
+    };
+
+export type HeadToHead = {
+  itemId1: string;
+  itemId2: string;
+  comparisons: number;
+  wins: number;
+  losses: number;
+  ties: number;
+  score: number | null;
+  winProbability: number;
+};
+
+export type PairwiseMatrix = {
+  items: string[];
+  wins: number[][];
+  losses: number[][];
+  ties: number[][];
+  winProbabilities: number[][];
+};
+
+export type TierOptions<M extends ItemMetadata = ItemMetadata> =
+  ItemFilter<M> & {
+    confidence?: number;
+    labels?: "numbers" | "letters" | string[];
+  };
+
+export type Tier<M extends ItemMetadata = ItemMetadata> = {
+  tier: number;
+  label: string;
+  items: ItemStats<M>[];
+};
+
+export type JudgeStats = {
+  judgeId: string;
+  comparisons: number;
+  agreementWithConsensus: number | null;
+  selfConsistency: number | null;
+  tieRate: number;
+  tieBias: number;
+  reliability: number;
+  weight: number;
+};
+
+export type ConvergenceOptions = {
+  window?: number;
+  confidence?: number;
+  minimumCorrelation?: number;
+  resolution?: number;
+};
+
+export type ConvergenceReport = {
+  comparisons: number;
+  window: number;
+  kendallTau: number | null;
+  spearman: number | null;
+  uncertainPairs: Array<[string, string]>;
+  estimatedRemainingComparisons: number;
+  converged: boolean;
+};
+
+export type ConsistencyOptions = {
+  maxCycles?: number;
+  maxSuspects?: number;
+};
+
+export type SuspectComparison = {
+  comparison: ComparisonRecord;
+  cycles: number;
+  upset: number;
+};
+
+export type ConsistencyReport = {
+  consistency: number;
+  triads: number;
+  cyclicTriads: number;
+  cycles: Array<[string, string, string]>;
+  cyclicGroups: string[][];
+  suspectComparisons: SuspectComparison[];
+};
+
+export type PositionBias = {
+  comparisons: number;
+  firstPositionScore: number | null;
+  advantage: number;
+  corrected: boolean;
+};
+
+export type TopKItemStatus = {
+  id: string;
+  rank: number;
+  inTopK: boolean;
+  confidence: number;
+  status: "in" | "out" | "contested";
+};
+
+export type TopKStatus = {
+  k: number;
+  confidence: number;
+  topK: string[];
+  settled: boolean;
+  orderSettled: boolean;
+  items: TopKItemStatus[];
+};
+
+export type TournamentJudgment =
+  | "win"
+  | "loss"
+  | "tie"
+  | Omit<ComparisonResult, "id" | "itemId1" | "itemId2" | "timestamp">;
+
+export type CompareFunction = (
+  itemId1: string,
+  itemId2: string,
+  signal: AbortSignal
+) => Promise<TournamentJudgment>;
+
+export type TournamentProgress = {
+  completed: number;
+  inFlight: number;
+  retries: number;
+  budget: number | null;
+};
+
+export type TournamentOptions = {
+  concurrency?: number;
+  budget?: number;
+  retries?: number;
+  timeout?: number;
+  signal?: AbortSignal;
+  convergence?: ConvergenceOptions | boolean;
+  stopWhen?: (ranker: Ranker) => boolean;
+  onProgress?: (progress: TournamentProgress) => void;
+  clock?: () => number;
+};
+
+export type TournamentResult = {
+  completed: number;
+  retries: number;
+  stopReason: "exhausted" | "budget" | "converged" | "aborted";
+};
+
+export type FileFormat = "json" | "jsonl" | "csv";
+
+export type ComparisonField = Exclude<keyof ComparisonResult, "metadata">;
+
+export type ComparisonImportOptions = {
+  format: FileFormat;
+  columns?: Partial<Record<ComparisonField, string>>;
+  timestamp?: number;
+};
+
+export type RankingExportOptions = RankingOptions & {
+  format: "csv" | "jsonl" | "markdown";
+  limit?: number;
+  precision?: number;
+};
+
+export type CriterionComparisonResult = ComparisonResult & {
+  criterion: string;
+};
+
+// The item set is shared across criteria, so items are only added and
+// removed through the MultiCriteriaRanker itself.
+export type CriterionRanker<M extends ItemMetadata = ItemMetadata> = Omit<
+  Ranker<M>,
+  "addItem" | "removeItem"
+>;
+
+export type AggregateRanking = {
+  id: string;
+  rating: number;
+  ratings: Record<string, number>;
+};
+
+export type MultiCriteriaSnapshot = {
+  criteria: Record<string, { weight: number; snapshot: RankerSnapshot }>;
+};
@@ -0,0 +1,143 @@
+import { fitBradleyTerry } from "./bradleyTerry";
+import { createSeededRandom } from "./random";
+import {
+  ComparisonRecord,
+  ItemUncertainty,
+  RankableItem,
+  UncertaintyOptions,
+} from "./types";
+
+// Percentile bootstrap over the recorded comparisons: every sample redraws
+// the comparisons with replacement and refits Bradley-Terry ratings. Rating
+// intervals are the spread of the refitted ratings around the point fit,
+// re-centred on `referenceRatings` so they can be read against whichever
+// ratings the caller is reporting.
+export function bootstrapUncertainty(
+  items: RankableItem[],
+  comparisons: ComparisonRecord[],
+  referenceRatings: Record<string, number>,
+  options: UncertaintyOptions = {},
+  fallbackRandom: () => number = Math.random
+): Record<string, ItemUncertainty> {
+  const { samples = 200, confidence = 0.95, seed, fit = {} } = options;
+  if (!(Number.isInteger(samples) && samples >= 1)) {
+    throw new Error("Uncertainty samples must be a positive integer");
+  }
+  if (!(confidence > 0 && confidence < 1)) {
+    throw new Error("Uncertainty confidence must be between 0 and 1");
+  }
+  const random = seed === undefined ? fallbackRandom : createSeededRandom(seed);
+
+  const pointFit = fitBradleyTerry(items, comparisons, fit);
+  const warmItems = items.map((item) => ({
+    ...item,
+    currentRating: pointFit.ratings[item.id],
+  }));
+  const order = [...items].sort(
+    (a, b) => referenceRatings[b.id] - referenceRatings[a.id]
+  );
+
+  const offsets = new Map<string, number[]>(items.map((item) => [item.id, []]));
+  const rankCounts = new Map<string, number[]>(
+    items.map((item) => [item.id, new Array(items.length).fill(0)])
+  );
+  const aboveNextCounts = new Map<string, number>(
+    items.map((item) => [item.id, 0])
+  );
+
+  for (let sample = 0; sample < samples; sample++) {
+    const resampled = comparisons.map(
+      () => comparisons[Math.floor(random() * comparisons.length)]
+    );
+    const { ratings } = fitBradleyTerry(warmItems, resampled, fit);
+
+    items.forEach((item) => {
+      offsets.get(item.id)!.push(ratings[item.id] - pointFit.ratings[item.id]);
+    });
+    tallyRanks(items, ratings, rankCounts);
+    order.slice(0, -1).forEach((item, index) => {
+      const next = order[index + 1];
+      const above =
+        ratings[item.id] > ratings[next.id]
+          ? 1
+          : ratings[item.id] === ratings[next.id]
+          ? 0.5
+          : 0;
+      aboveNextCounts.set(item.id, aboveNextCounts.get(item.id)! + above);
+    });
+  }
+
+  const tail = (1 - confidence) / 2;
+  const uncertainty: Record<string, ItemUncertainty> = {};
+  order.forEach((item, index) => {
+    const sorted = offsets.get(item.id)!.sort((a, b) => a - b);
+    const rankProbabilities = rankCounts
+      .get(item.id)!
+      .map((count) => count / samples);
+
+    uncertainty[item.id] = {
+      ratingInterval: {
+        lower: referenceRatings[item.id] + quantile(sorted, tail),
+        upper: referenceRatings[item.id] + quantile(sorted, 1 - tail),
+      },
+      confidence,
+      rankProbabilities,
+      expectedRank: rankProbabilities.reduce(
+        (sum, probability, rank) => sum + probability * (rank + 1),
+        0
+      ),
+      rankInterval: {
+        best: rankQuantile(rankProbabilities, tail),
+        worst: rankQuantile(rankProbabilities, 1 - tail),
+      },
+      ...(index < order.length - 1 && {
+        probabilityAboveNext: aboveNextCounts.get(item.id)! / samples,
+      }),
+    };
+  });
+
+  return uncertainty;
+}
+
+// Items with equal ratings share the positions they span evenly, so ties
+// do not fall back on insertion order.
+function tallyRanks(
+  items: RankableItem[],
+  ratings: Record<string, number>,
+  rankCounts: Map<string, number[]>
+): void {
+  const sorted = [...items].sort((a, b) => ratings[b.id] - ratings[a.id]);
+  let start = 0;
+  while (start < sorted.length) {
+    let end = start + 1;
+    while (
+      end < sorted.length &&
+      ratings[sorted[end].id] === ratings[sorted[start].id]
+    ) {
+      end++;
+    }
+    const share = 1 / (end - start);
+    sorted.slice(start, end).forEach((item) => {
+      const counts = rankCounts.get(item.id)!;
+      for (let rank = start; rank < end; rank++) counts[rank] += share;
+    });
+    start = end;
+  }
+}
+
+function quantile(sorted: number[], q: number): number {
+  if (sorted.length === 0) return 0;
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+function rankQuantile(probabilities: number[], q: number): number {
+  let cumulative = 0;
+  for (let rank = 0; rank < probabilities.length; rank++) {
+    cumulative += probabilities[rank];
+    if (cumulative >= q - 1e-9) return rank + 1;
+  }
+  return probabilities.length;
+}
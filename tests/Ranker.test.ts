@@ -1,13 +1,37 @@
 // eloRanker.test.ts
 
 import { Ranker } from "../src/ranker";
-import { RankableItem, ComparisonResult, ProgressParams } from "../src/types";
+import { MultiCriteriaRanker } from "../src/MultiCriteriaRanker";
+import { RandomSelectionStrategy } from "../src/selectionStrategies";
+import { CliIO, runCli } from "../src/cli";
+import { exportRankings, importComparisons, parseCsv } from "../src/formats";
+import { runTournament } from "../src/tournament";
+import {
+  RankableItem,
+  ComparisonResult,
+  ItemMetadata,
+  ProgressParams,
+  RankerConfig,
+  RankerOptions,
+  CompareFunction,
+} from "../src/types";
 
 const progressParams: ProgressParams = {
   ratingChangeThreshold: 5,
   stableComparisonsThreshold: 10,
 };
 
+// Items start at the default rating; suites record their own comparisons.
+const createRanker = <M extends ItemMetadata = ItemMetadata>(
+  itemIds: string[],
+  config: Partial<RankerConfig> = {},
+  options: RankerOptions = {}
+): Ranker<M> => {
+  const ranker = new Ranker<M>([], config, options);
+  itemIds.forEach((id) => ranker.addItem(id));
+  return ranker;
+};
+
 describe("EloRanker Class Tests", () => {
   let ranker: Ranker;
 
@@ -731,3 +755,2632 @@ describe("getNextComparison Tests", () => {
     }
   });
 });
+
+describe("Snapshot Tests", () => {
+  let ranker: Ranker;
+
+  beforeEach(() => {
+    ranker = new Ranker([], { kFactor: 24, minimumComparisons: 5 });
+    ranker.addItem("item1");
+    ranker.addItem("item2", 1600);
+    ranker.addItem("item3");
+
+    ranker.addComparisonResult({
+      itemId1: "item1",
+      itemId2: "item2",
+      result: "win",
+      timestamp: 1000,
+    });
+    ranker.addComparisonResult({
+      itemId1: "item2",
+      itemId2: "item3",
+      result: "tie",
+      timestamp: 2000,
+    });
+  });
+
+  test("should round-trip full state through JSON", () => {
+    const restored = Ranker.fromJSON(JSON.stringify(ranker));
+
+    expect(restored.getAllItems()).toEqual(ranker.getAllItems());
+    expect(restored.toJSON()).toEqual(ranker.toJSON());
+    expect(restored.toJSON().config.kFactor).toBe(24);
+    expect(restored.getItemStats("item2").ties).toBe(1);
+    expect(restored.getItemStats("item3").lastComparisonTime).toBe(2000);
+  });
+
+  test("should not share state with the restored instance", () => {
+    const restored = Ranker.fromJSON(ranker.toJSON());
+    restored.addComparisonResult({
+      itemId1: "item1",
+      itemId2: "item3",
+      result: "win",
+      timestamp: 3000,
+    });
+
+    expect(ranker.getItemStats("item1").comparisons).toBe(1);
+    expect(ranker.getItemHistory("item1")).toHaveLength(1);
+    expect(restored.getItemHistory("item1")).toHaveLength(2);
+  });
+
+  test("should migrate a bare item array", () => {
+    const restored = Ranker.fromJSON(ranker.getAllItems());
+
+    expect(restored.getAllItems()).toEqual(ranker.getAllItems());
+    expect(restored.toJSON().config.kFactor).toBe(32);
+  });
+
+  test("should reject invalid snapshots", () => {
+    const snapshot: any = ranker.toJSON();
+    snapshot.items[1].wins = "1";
+
+    expect(() => Ranker.fromJSON(snapshot)).toThrowError(
+      "Invalid snapshot: items[1].wins must be a finite number"
+    );
+    expect(() => Ranker.fromJSON({ ...ranker.toJSON(), version: 99 })).toThrow(
+      "Unsupported snapshot version 99"
+    );
+  });
+});
+
+describe("Event Log Tests", () => {
+  let ranker: Ranker;
+
+  beforeEach(() => {
+    ranker = new Ranker([], {});
+    ranker.addItem("item1");
+    ranker.addItem("item2");
+    ranker.addItem("item3", 1600);
+
+    ranker.addComparisonResult({
+      itemId1: "item1",
+      itemId2: "item2",
+      result: "win",
+      timestamp: 1000,
+      metadata: { judge: "gpt" },
+    });
+    ranker.addComparisonResult({
+      id: "custom",
+      itemId1: "item3",
+      itemId2: "item1",
+      result: "loss",
+      timestamp: 2000,
+    });
+  });
+
+  test("should record every item and comparison event in order", () => {
+    const log = ranker.getEventLog();
+
+    expect(log.map((event) => event.type)).toEqual([
+      "itemAdded",
+      "itemAdded",
+      "itemAdded",
+      "comparison",
+      "comparison",
+    ]);
+    expect(log.map((event) => event.sequence)).toEqual([0, 1, 2, 3, 4]);
+    expect(ranker.getComparisons()).toEqual([
+      {
+        id: "3",
+        itemId1: "item1",
+        itemId2: "item2",
+        result: "win",
+        timestamp: 1000,
+        metadata: { judge: "gpt" },
+      },
+      {
+        id: "custom",
+        itemId1: "item3",
+        itemId2: "item1",
+        result: "loss",
+        timestamp: 2000,
+      },
+    ]);
+  });
+
+  test("should not log rejected operations", () => {
+    expect(() =>
+      ranker.addComparisonResult({
+        id: "custom",
+        itemId1: "item1",
+        itemId2: "item2",
+        result: "win",
+        timestamp: 3000,
+      })
+    ).toThrowError("Comparison with id custom already exists");
+    expect(() => ranker.removeItem("missing")).toThrow();
+
+    expect(ranker.getEventLog()).toHaveLength(5);
+  });
+
+  test("should rebuild identical state from the log", () => {
+    ranker.removeItem("item2");
+    const before = ranker.getAllItems();
+
+    ranker.rebuild();
+    expect(ranker.getAllItems()).toEqual(before);
+
+    const replayed = Ranker.fromEventLog(ranker.getEventLog(), {});
+    expect(replayed.getAllItems()).toEqual(before);
+  });
+
+  test("should rebuild ratings under a different config", () => {
+    const delta = 1600 - ranker.getItemStats("item3").currentRating;
+
+    ranker.rebuild({ kFactor: 64 });
+
+    expect(1600 - ranker.getItemStats("item3").currentRating).toBeGreaterThan(
+      delta
+    );
+    expect(ranker.getItemStats("item1").wins).toBe(2);
+    expect(ranker.toJSON().config.kFactor).toBe(64);
+  });
+
+  test("should persist the log in snapshots", () => {
+    const restored = Ranker.fromJSON(JSON.stringify(ranker));
+
+    expect(restored.getEventLog()).toEqual(ranker.getEventLog());
+    expect(() =>
+      restored.addComparisonResult({
+        id: "custom",
+        itemId1: "item1",
+        itemId2: "item2",
+        result: "win",
+        timestamp: 3000,
+      })
+    ).toThrow();
+  });
+});
+
+describe("Comparison Correction Tests", () => {
+  const comparisons: ComparisonResult[] = [
+    {
+      id: "a",
+      itemId1: "item1",
+      itemId2: "item2",
+      result: "win",
+      timestamp: 1,
+    },
+    {
+      id: "b",
+      itemId1: "item2",
+      itemId2: "item3",
+      result: "win",
+      timestamp: 2,
+    },
+    {
+      id: "c",
+      itemId1: "item1",
+      itemId2: "item3",
+      result: "loss",
+      timestamp: 3,
+    },
+  ];
+
+  const itemIds = ["item1", "item2", "item3"];
+  let ranker: Ranker;
+
+  beforeEach(() => {
+    ranker = createRanker(itemIds);
+    comparisons.forEach((comparison) => ranker.addComparisonResult(comparison));
+  });
+
+  test("should retract a comparison as if it was never recorded", () => {
+    ranker.retractComparison("b");
+
+    const expected = createRanker(itemIds);
+    [comparisons[0], comparisons[2]].forEach((comparison) =>
+      expected.addComparisonResult(comparison)
+    );
+    expect(ranker.getAllItems()).toEqual(expected.getAllItems());
+    expect(ranker.getComparisons().map((c) => c.id)).toEqual(["a", "c"]);
+    expect(ranker.getEventLog().pop()).toMatchObject({
+      type: "comparisonRetracted",
+      comparisonId: "b",
+    });
+  });
+
+  test("should amend a comparison as if it was recorded correctly", () => {
+    ranker.amendComparison("a", { result: "tie" });
+
+    const expected = createRanker(itemIds);
+    expected.addComparisonResult({ ...comparisons[0], result: "tie" });
+    comparisons
+      .slice(1)
+      .forEach((comparison) => expected.addComparisonResult(comparison));
+    expect(ranker.getAllItems()).toEqual(expected.getAllItems());
+    expect(ranker.getItemStats("item1").ties).toBe(1);
+    expect(ranker.getItemStats("item1").wins).toBe(0);
+    expect(ranker.getComparisons()[0].result).toBe("tie");
+  });
+
+  test("should reject corrections of unknown or retracted comparisons", () => {
+    ranker.retractComparison("c");
+
+    expect(() => ranker.retractComparison("missing")).toThrowError(
+      "Comparison with id missing not found"
+    );
+    expect(() => ranker.amendComparison("c", { result: "win" })).toThrowError(
+      "Comparison with id c has been retracted"
+    );
+    expect(() =>
+      ranker.addComparisonResult({ ...comparisons[2], result: "win" })
+    ).toThrowError("Comparison with id c already exists");
+  });
+
+  test("should keep corrections across snapshots and rebuilds", () => {
+    ranker.amendComparison("a", { result: "loss" });
+    ranker.retractComparison("b");
+    const items = ranker.getAllItems();
+
+    const restored = Ranker.fromJSON(JSON.stringify(ranker));
+    expect(restored.getComparisons()).toEqual(ranker.getComparisons());
+    expect(() => restored.amendComparison("b", { result: "tie" })).toThrow();
+
+    restored.rebuild();
+    expect(restored.getAllItems()).toEqual(items);
+  });
+});
+
+describe("Rating Model Tests", () => {
+  const itemIds = ["item1", "item2", "item3"];
+
+  test("should use Elo without deviation tracking by default", () => {
+    const ranker = createRanker(itemIds);
+    ranker.addComparisonResult({
+      itemId1: "item1",
+      itemId2: "item2",
+      result: "win",
+      timestamp: 1,
+    });
+
+    expect(ranker.getItemStats("item1").currentRating).toBe(1516);
+    expect(ranker.getItemStats("item1").ratingDeviation).toBeUndefined();
+  });
+
+  test("should track deviation and volatility with Glicko-2", () => {
+    const ranker = createRanker(itemIds, { ratingModel: "glicko2" });
+
+    expect(ranker.getItemStats("item1").ratingDeviation).toBe(350);
+    expect(ranker.getItemStats("item1").volatility).toBe(0.06);
+
+    ranker.addComparisonResult({
+      itemId1: "item1",
+      itemId2: "item2",
+      result: "win",
+      timestamp: 1,
+    });
+
+    const item1 = ranker.getItemStats("item1");
+    const item2 = ranker.getItemStats("item2");
+    expect(item1.currentRating).toBeGreaterThan(1500);
+    expect(item2.currentRating).toBeCloseTo(3000 - item1.currentRating, 6);
+    expect(item1.ratingDeviation).toBeLessThan(350);
+    expect(item1.volatility).toBeCloseTo(0.06, 3);
+    expect(ranker.getItemStats("item3").ratingDeviation).toBe(350);
+  });
+
+  test("should shrink deviation as Glicko-2 items are compared", () => {
+    const ranker = createRanker(itemIds, { ratingModel: "glicko2" });
+
+    const deviations: number[] = [];
+    for (let i = 0; i < 10; i++) {
+      ranker.addComparisonResult({
+        itemId1: "item1",
+        itemId2: i % 2 === 0 ? "item2" : "item3",
+        result: "win",
+        timestamp: i,
+      });
+      deviations.push(ranker.getItemStats("item1").ratingDeviation!);
+    }
+
+    deviations.slice(1).forEach((deviation, index) => {
+      expect(deviation).toBeLessThan(deviations[index]);
+    });
+  });
+
+  test("should switch models when rebuilding and restoring", () => {
+    const ranker = createRanker(itemIds);
+    ranker.addComparisonResult({
+      itemId1: "item1",
+      itemId2: "item2",
+      result: "win",
+      timestamp: 1,
+    });
+
+    ranker.rebuild({ ratingModel: "glicko2" });
+    expect(ranker.getItemStats("item1").ratingDeviation).toBeLessThan(350);
+
+    const restored = Ranker.fromJSON(JSON.stringify(ranker));
+    expect(restored.getAllItems()).toEqual(ranker.getAllItems());
+    expect(restored.toJSON().config.ratingModel).toBe("glicko2");
+  });
+
+  test("should keep the current model when rebuilding with an unknown one", () => {
+    const ranker = createRanker(itemIds);
+
+    expect(() => ranker.rebuild({ ratingModel: "nope" })).toThrowError(
+      "Unknown rating model nope"
+    );
+    expect(ranker.toJSON().config.ratingModel).toBe("elo");
+    expect(() => Ranker.fromJSON(JSON.stringify(ranker))).not.toThrow();
+  });
+
+  test("should accept custom rating models", () => {
+    const fixedStep = {
+      name: "fixed-step",
+      initialize: () => {},
+      expectedScore: () => 0.5,
+      rate: (item: RankableItem, _opponent: RankableItem, score: number) => ({
+        rating: item.currentRating + (score - 0.5) * 10,
+      }),
+    };
+
+    expect(() => new Ranker([], { ratingModel: "fixed-step" })).toThrowError(
+      "Unknown rating model fixed-step"
+    );
+
+    const ranker = createRanker(
+      itemIds,
+      { ratingModel: "fixed-step" },
+      { ratingModels: [fixedStep] }
+    );
+    ranker.addComparisonResult({
+      itemId1: "item1",
+      itemId2: "item2",
+      result: "loss",
+      timestamp: 1,
+    });
+
+    expect(ranker.getItemStats("item1").currentRating).toBe(1495);
+    expect(ranker.getItemStats("item2").currentRating).toBe(1505);
+  });
+});
+
+describe("Bradley-Terry Fit Tests", () => {
+  const itemIds = ["item1", "item2", "item3"];
+
+  const record = (
+    ranker: Ranker,
+    results: Array<[string, string, ComparisonResult["result"]]>
+  ): void =>
+    results.forEach(([itemId1, itemId2, result], timestamp) =>
+      ranker.addComparisonResult({ itemId1, itemId2, result, timestamp })
+    );
+
+  test("should recover the maximum-likelihood strength ratio", () => {
+    const ranker = createRanker(itemIds);
+    record(ranker, [
+      ["item1", "item2", "win"],
+      ["item1", "item2", "win"],
+      ["item2", "item1", "loss"],
+      ["item2", "item1", "win"],
+    ]);
+
+    const fit = ranker.fitBradleyTerry({ priorWeight: 0, tolerance: 1e-9 });
+
+    expect(fit.converged).toBe(true);
+    expect(fit.tieParameter).toBe(0);
+    expect(fit.ratings.item1 - fit.ratings.item2).toBeCloseTo(
+      400 * Math.log10(3),
+      4
+    );
+  });
+
+  test("should estimate the Davidson tie parameter", () => {
+    const ranker = createRanker(itemIds);
+    record(ranker, [
+      ["item1", "item2", "win"],
+      ["item1", "item2", "loss"],
+      ["item1", "item2", "tie"],
+      ["item2", "item3", "win"],
+      ["item2", "item3", "loss"],
+      ["item2", "item3", "tie"],
+    ]);
+
+    const fit = ranker.fitBradleyTerry({ tolerance: 1e-9 });
+
+    expect(fit.tieParameter).toBeCloseTo(1, 4);
+    expect(fit.ratings.item1).toBeCloseTo(fit.ratings.item2, 4);
+    expect(fit.ratings.item2).toBeCloseTo(fit.ratings.item3, 4);
+  });
+
+  test("should produce order-independent rankings", () => {
+    const results: Array<[string, string, ComparisonResult["result"]]> = [
+      ["item1", "item2", "win"],
+      ["item2", "item3", "win"],
+      ["item1", "item3", "tie"],
+      ["item3", "item1", "win"],
+      ["item2", "item1", "loss"],
+    ];
+    const forward = createRanker(itemIds);
+    const backward = createRanker(itemIds);
+    record(forward, results);
+    record(backward, [...results].reverse());
+
+    expect(forward.getItemStats("item1").currentRating).not.toBeCloseTo(
+      backward.getItemStats("item1").currentRating,
+      4
+    );
+
+    const fitted = forward.getRankings({ method: "bradley-terry" });
+    const refitted = backward.getRankings({ method: "bradley-terry" });
+    expect(fitted.map((item) => item.id)).toEqual(
+      refitted.map((item) => item.id)
+    );
+    fitted.forEach((item, index) => {
+      expect(item.currentRating).toBeCloseTo(refitted[index].currentRating, 1);
+    });
+    expect(fitted[0].id).toBe("item1");
+  });
+
+  test("should not modify stored ratings", () => {
+    const ranker = createRanker(itemIds);
+    record(ranker, [["item1", "item2", "win"]]);
+    const before = ranker.getAllItems().map((item) => item.currentRating);
+
+    ranker.getRankings({ method: "bradley-terry" });
+
+    expect(ranker.getAllItems().map((item) => item.currentRating)).toEqual(
+      before
+    );
+  });
+});
+
+describe("Uncertainty Tests", () => {
+  let ranker: Ranker;
+
+  beforeEach(() => {
+    ranker = createRanker(["item1", "item2", "item3", "item4"]);
+
+    const record = (
+      itemId1: string,
+      itemId2: string,
+      result: ComparisonResult["result"],
+      times: number
+    ) => {
+      for (let i = 0; i < times; i++) {
+        ranker.addComparisonResult({ itemId1, itemId2, result, timestamp: i });
+      }
+    };
+    record("item1", "item2", "win", 8);
+    record("item1", "item3", "win", 8);
+    record("item1", "item4", "win", 8);
+    record("item2", "item3", "win", 3);
+    record("item2", "item3", "loss", 2);
+    record("item2", "item4", "win", 6);
+    record("item3", "item4", "win", 6);
+  });
+
+  test("should report intervals around the current rating", () => {
+    const stats = ranker.getItemStats("item2", { uncertainty: { seed: 1 } });
+    const { ratingInterval, confidence } = stats.uncertainty!;
+
+    expect(confidence).toBe(0.95);
+    expect(ratingInterval.lower).toBeLessThan(stats.currentRating);
+    expect(ratingInterval.upper).toBeGreaterThan(stats.currentRating);
+  });
+
+  test("should report a distribution over rank positions", () => {
+    const rankings = ranker.getRankings({
+      uncertainty: { samples: 100, seed: 7 },
+    });
+
+    expect(rankings.map((item) => item.id)[0]).toBe("item1");
+    rankings.forEach((item) => {
+      const { rankProbabilities } = item.uncertainty!;
+      expect(rankProbabilities).toHaveLength(4);
+      expect(rankProbabilities.reduce((a, b) => a + b, 0)).toBeCloseTo(1, 9);
+    });
+
+    const [first, second, third, fourth] = rankings.map(
+      (item) => item.uncertainty!
+    );
+    expect(first.rankProbabilities[0]).toBeGreaterThan(0.9);
+    expect(first.probabilityAboveNext).toBeGreaterThan(0.9);
+    expect(second.probabilityAboveNext).toBeLessThan(0.9);
+    expect(second.rankInterval).toEqual({ best: 2, worst: 3 });
+    expect(third.expectedRank).toBeGreaterThan(second.expectedRank);
+    expect(fourth.probabilityAboveNext).toBeUndefined();
+  });
+
+  test("should only rank filtered items against each other", () => {
+    const rankings = ranker.getRankings({
+      filter: (item) => item.id !== "item1",
+      uncertainty: { samples: 100, seed: 7 },
+    });
+
+    expect(rankings.map((item) => item.id)).toEqual([
+      "item2",
+      "item3",
+      "item4",
+    ]);
+    rankings.forEach((item) => {
+      const { rankProbabilities } = item.uncertainty!;
+      expect(rankProbabilities).toHaveLength(3);
+      expect(rankProbabilities.reduce((a, b) => a + b, 0)).toBeCloseTo(1, 9);
+    });
+    expect(rankings[0].uncertainty!.rankInterval.best).toBe(1);
+  });
+
+  test("should share rank positions between tied items", () => {
+    const unrated = createRanker(["a", "b", "c"]);
+    const uncertainty = unrated.getUncertainty({ samples: 10, seed: 1 });
+
+    ["a", "b", "c"].forEach((id) => {
+      uncertainty[id].rankProbabilities.forEach((probability) =>
+        expect(probability).toBeCloseTo(1 / 3)
+      );
+      expect(uncertainty[id].rankInterval).toEqual({ best: 1, worst: 3 });
+    });
+    expect(uncertainty.a.probabilityAboveNext).toBe(0.5);
+  });
+
+  test("should reject invalid sample counts and confidence levels", () => {
+    expect(() => ranker.getUncertainty({ samples: 0 })).toThrow(
+      "Uncertainty samples must be a positive integer"
+    );
+    expect(() => ranker.getUncertainty({ confidence: 1.5 })).toThrow(
+      "Uncertainty confidence must be between 0 and 1"
+    );
+  });
+
+  test("should be reproducible with a seed", () => {
+    expect(ranker.getUncertainty({ seed: 3, samples: 50 })).toEqual(
+      ranker.getUncertainty({ seed: 3, samples: 50 })
+    );
+  });
+
+  test("should leave rankings unchanged without uncertainty", () => {
+    expect(ranker.getRankings()[0].uncertainty).toBeUndefined();
+    expect(ranker.getItemStats("item1").uncertainty).toBeUndefined();
+  });
+});
+
+describe("Information Gain Selection Tests", () => {
+  let ranker: Ranker;
+
+  beforeEach(() => {
+    ranker = createRanker(["item1", "item2", "item3", "item4"], {
+      selectionMode: "information-gain",
+    });
+  });
+
+  test("should prefer the pair whose outcome is least certain", () => {
+    for (let i = 0; i < 10; i++) {
+      ranker.addComparisonResult({
+        itemId1: "item1",
+        itemId2: "item2",
+        result: i % 2 === 0 ? "win" : "loss",
+        timestamp: i,
+      });
+    }
+
+    expect(ranker.getNextComparison()).toEqual(["item3", "item4"]);
+  });
+
+  test("should avoid pairs whose outcome is near certain", () => {
+    ranker.addItem("strong", 2600);
+    ranker.addItem("weak", 400);
+
+    const pair = ranker.getNextComparison()!;
+    expect(pair).not.toEqual(["strong", "weak"]);
+    expect(pair).not.toContain("weak");
+  });
+
+  test("should stop when no pair is informative enough", () => {
+    const strict = createRanker(["item1", "item2"], {
+      selectionMode: "information-gain",
+      minimumInformationGain: 1,
+    });
+
+    expect(strict.getNextComparison()).toBeNull();
+  });
+
+  test("should still stop once every item has enough comparisons", () => {
+    const quick = createRanker(["item1", "item2"], {
+      selectionMode: "information-gain",
+      minimumComparisons: 1,
+    });
+    quick.addComparisonResult({
+      itemId1: "item1",
+      itemId2: "item2",
+      result: "win",
+      timestamp: 1,
+    });
+
+    expect(quick.getNextComparison()).toBeNull();
+  });
+});
+
+describe("Selection Strategy Tests", () => {
+  const itemIds = ["item1", "item2", "item3", "item4"];
+
+  const play = (ranker: Ranker, rounds: number): Array<[string, string]> => {
+    const pairs: Array<[string, string]> = [];
+    for (let i = 0; i < rounds; i++) {
+      const pair = ranker.getNextComparison()!;
+      pairs.push(pair);
+      ranker.addComparisonResult({
+        itemId1: pair[0],
+        itemId2: pair[1],
+        result: pair[0] < pair[1] ? "win" : "loss",
+        timestamp: i,
+      });
+    }
+    return pairs;
+  };
+
+  const key = ([a, b]: [string, string]) => [a, b].sort().join("-");
+
+  test("should cover every pair once per round in round-robin mode", () => {
+    const ranker = createRanker(itemIds, { selectionMode: "round-robin" });
+    const pairs = play(ranker, 12);
+
+    expect(new Set(pairs.slice(0, 6).map(key)).size).toBe(6);
+    expect(new Set(pairs.slice(6).map(key)).size).toBe(6);
+  });
+
+  test("should pair every item once per Swiss round", () => {
+    const ranker = createRanker(itemIds, { selectionMode: "swiss" });
+    const pairs = play(ranker, 6);
+
+    [0, 2, 4].forEach((start) => {
+      const round = pairs.slice(start, start + 2).flat();
+      expect(new Set(round).size).toBe(4);
+    });
+    expect(new Set(pairs.map(key)).size).toBe(6);
+    // After round one the two winners meet
+    expect(key(pairs[2])).toBe("item1-item3");
+  });
+
+  test("should be reproducible with a seeded random strategy", () => {
+    const options = { selectionStrategies: [new RandomSelectionStrategy(5)] };
+    const pairs = play(
+      createRanker(itemIds, { selectionMode: "random" }, options),
+      10
+    );
+    const again = play(
+      createRanker(
+        itemIds,
+        { selectionMode: "random" },
+        { selectionStrategies: [new RandomSelectionStrategy(5)] }
+      ),
+      10
+    );
+
+    expect(pairs).toEqual(again);
+    pairs.forEach(([a, b]) => expect(a).not.toBe(b));
+  });
+
+  test("should use custom strategies that see items and history", () => {
+    const seen: number[] = [];
+    const ranker = createRanker(itemIds);
+    ranker.registerSelectionStrategy({
+      name: "first-two",
+      selectPair: ({ items, comparisons }) => {
+        seen.push(comparisons.length);
+        return [items[0].id, items[1].id];
+      },
+    });
+    ranker.rebuild({ selectionMode: "first-two" });
+
+    play(ranker, 3);
+    expect(seen).toEqual([0, 1, 2]);
+    expect(ranker.getItemStats("item1").comparisons).toBe(3);
+  });
+
+  test("should reject unknown strategies", () => {
+    expect(() =>
+      createRanker(itemIds, { selectionMode: "missing" })
+    ).toThrowError("Unknown selection strategy missing");
+
+    const ranker = createRanker(itemIds, { selectionMode: "swiss" });
+    expect(() => ranker.rebuild({ selectionMode: "missing" })).toThrowError(
+      "Unknown selection strategy missing"
+    );
+    expect(ranker.toJSON().config.selectionMode).toBe("swiss");
+  });
+});
+
+describe("Deterministic Mode Tests", () => {
+  const itemIds = ["item1", "item2", "item3", "item4", "item5", "item6"];
+
+  const suggestPairs = (ranker: Ranker, count: number) => {
+    const pairs: Array<[string, string]> = [];
+    for (let i = 0; i < count; i++) {
+      const pair = ranker.getNextComparison()!;
+      pairs.push(pair);
+      ranker.addComparisonResult({
+        itemId1: pair[0],
+        itemId2: pair[1],
+        result: "tie",
+        timestamp: i,
+      });
+    }
+    return pairs;
+  };
+
+  test("should produce the same pairs from the same seed and clock", () => {
+    const clock = () => 1_000_000;
+    const first = suggestPairs(
+      createRanker(itemIds, { seed: 11 }, { clock }),
+      15
+    );
+    const second = suggestPairs(
+      createRanker(itemIds, { seed: 11 }, { clock }),
+      15
+    );
+
+    expect(first).toEqual(second);
+  });
+
+  test("should break ties between equal opponents with the RNG", () => {
+    const opponents = new Set(
+      [1, 2, 3, 4, 5, 6, 7, 8].map(
+        (seed) => createRanker(itemIds, { seed }).getNextComparison()![1]
+      )
+    );
+
+    expect(opponents.size).toBeGreaterThan(1);
+  });
+
+  test("should keep the first equal opponent when unseeded", () => {
+    const random = jest.spyOn(Math, "random");
+    const pairs = [1, 2, 3].map(() =>
+      createRanker(itemIds, {}, { clock: () => 0 }).getNextComparison()
+    );
+    random.mockRestore();
+
+    pairs.forEach((pair) => expect(pair).toEqual(["item1", "item2"]));
+    expect(random).not.toHaveBeenCalled();
+  });
+
+  test("should use the injected clock for event timestamps", () => {
+    let now = 5000;
+    const ranker = createRanker(itemIds, { seed: 1 }, { clock: () => now });
+
+    expect(ranker.getEventLog()[0].timestamp).toBe(5000);
+
+    ranker.addComparisonResult({
+      itemId1: "item1",
+      itemId2: "item2",
+      result: "win",
+      timestamp: now,
+    });
+    now = 9000;
+    ranker.removeItem("item6");
+    expect(ranker.getEventLog().pop()!.timestamp).toBe(9000);
+  });
+
+  test("should accept an injected random source", () => {
+    const ranker = createRanker(itemIds, {}, { random: () => 0.999 });
+    const pair = ranker.getNextComparison()!;
+
+    expect(pair).toEqual(["item1", "item6"]);
+  });
+
+  test("should resume the seeded sequence after a snapshot", () => {
+    const clock = () => 0;
+    const ranker = createRanker(itemIds, { seed: 99 }, { clock });
+    suggestPairs(ranker, 5);
+
+    const restored = Ranker.fromJSON(JSON.stringify(ranker), { clock });
+    expect(suggestPairs(restored, 10)).toEqual(suggestPairs(ranker, 10));
+  });
+});
+
+describe("Judge Tests", () => {
+  const judge = (
+    ranker: Ranker,
+    judgeId: string,
+    itemId1: string,
+    itemId2: string,
+    result: "win" | "loss" | "tie"
+  ): number =>
+    ranker.addComparisonResult({
+      itemId1,
+      itemId2,
+      result,
+      timestamp: 0,
+      judgeId,
+    });
+
+  const itemIds = ["a", "b", "c"];
+
+  const recordPanel = (ranker: Ranker) => {
+    ["alice", "bob", "carol"].forEach((id) => {
+      judge(ranker, id, "a", "b", "win");
+      judge(ranker, id, "b", "c", "win");
+      judge(ranker, id, "a", "c", "win");
+    });
+    judge(ranker, "noisy", "b", "a", "win");
+    judge(ranker, "noisy", "c", "b", "win");
+    judge(ranker, "noisy", "a", "c", "tie");
+    judge(ranker, "noisy", "a", "c", "loss");
+  };
+
+  test("should report agreement, consistency and tie bias per judge", () => {
+    const ranker = createRanker(itemIds);
+    recordPanel(ranker);
+    const stats = ranker.getJudgeStats();
+    const alice = stats.find((s) => s.judgeId === "alice")!;
+    const noisy = stats.find((s) => s.judgeId === "noisy")!;
+
+    expect(alice.comparisons).toBe(3);
+    expect(alice.agreementWithConsensus).toBe(1);
+    expect(alice.selfConsistency).toBeNull();
+    expect(noisy.agreementWithConsensus).toBeCloseTo(0.125);
+    expect(noisy.selfConsistency).toBe(0);
+    expect(noisy.tieRate).toBe(0.25);
+    expect(noisy.tieBias).toBeCloseTo(0.25 - 1 / 13);
+    expect(noisy.reliability).toBeLessThan(alice.reliability);
+    expect(alice.weight).toBe(1);
+  });
+
+  test("should keep judge ids on recorded comparisons and in snapshots", () => {
+    const ranker = createRanker(itemIds);
+    judge(ranker, "alice", "a", "b", "win");
+    const restored = Ranker.fromJSON(JSON.stringify(ranker));
+
+    expect(restored.getComparisons()[0].judgeId).toBe("alice");
+  });
+
+  test("should down-weight unreliable judges in reliability mode", () => {
+    const ranker = createRanker(itemIds, { judgeWeighting: "reliability" });
+    recordPanel(ranker);
+    const noisy = ranker.getJudgeStats().find((s) => s.judgeId === "noisy")!;
+    const delta = judge(ranker, "noisy", "c", "a", "win");
+
+    expect(noisy.weight).toBe(noisy.reliability);
+    expect(delta).toBeCloseTo(
+      judge(createRanker(itemIds), "noisy", "c", "a", "win") * noisy.weight
+    );
+  });
+
+  test("should apply fixed judge weights", () => {
+    const ranker = createRanker(itemIds, { judgeWeights: { intern: 0.5 } });
+    const weighted = judge(ranker, "intern", "a", "b", "win");
+    const unweighted = judge(createRanker(itemIds), "lead", "a", "b", "win");
+
+    expect(weighted).toBeCloseTo(unweighted / 2);
+  });
+});
+
+describe("Graded Outcome Tests", () => {
+  const itemIds = ["a", "b"];
+
+  test("should scale rating changes by the strength of preference", () => {
+    const decisive = createRanker(itemIds).addComparisonResult({
+      itemId1: "a",
+      itemId2: "b",
+      score: 1,
+      timestamp: 0,
+    });
+    const slight = createRanker(itemIds).addComparisonResult({
+      itemId1: "a",
+      itemId2: "b",
+      score: 0.75,
+      timestamp: 0,
+    });
+
+    expect(slight).toBeCloseTo(decisive / 2);
+  });
+
+  test("should derive counters from graded scores", () => {
+    const ranker = createRanker(itemIds);
+    ranker.addComparisonResult({
+      itemId1: "a",
+      itemId2: "b",
+      grade: "slightly better",
+      timestamp: 0,
+    });
+    ranker.addComparisonResult({
+      itemId1: "a",
+      itemId2: "b",
+      grade: "equal",
+      timestamp: 0,
+    });
+
+    const a = ranker.getItemStats("a");
+    expect([a.wins, a.losses, a.ties]).toEqual([1, 0, 1]);
+    expect(ranker.getComparisons()[0]).toMatchObject({
+      result: "win",
+      score: 0.75,
+      grade: "slightly better",
+    });
+  });
+
+  test("should use a custom grade scale", () => {
+    const ranker = createRanker(itemIds, {
+      gradeScale: { "A++": 0.9, "B++": 0.1 },
+    });
+    ranker.addComparisonResult({
+      itemId1: "a",
+      itemId2: "b",
+      grade: "B++",
+      timestamp: 0,
+    });
+
+    expect(ranker.getItemStats("b").wins).toBe(1);
+    expect(() =>
+      ranker.addComparisonResult({
+        itemId1: "a",
+        itemId2: "b",
+        grade: "much better",
+        timestamp: 0,
+      })
+    ).toThrow("Unknown grade much better");
+  });
+
+  test("should not share the grade scale through snapshots", () => {
+    const ranker = createRanker(itemIds);
+    delete ranker.toJSON().config.gradeScale["much better"];
+    const grade = (target: Ranker) =>
+      target.addComparisonResult({
+        itemId1: "a",
+        itemId2: "b",
+        grade: "much better",
+        timestamp: 0,
+      });
+
+    expect(() => grade(ranker)).not.toThrow();
+    expect(() => grade(createRanker(itemIds))).not.toThrow();
+  });
+
+  test("should reject invalid or contradictory scores", () => {
+    const ranker = createRanker(itemIds);
+    const compare = (outcome: Partial<ComparisonResult>) => () =>
+      ranker.addComparisonResult({
+        itemId1: "a",
+        itemId2: "b",
+        timestamp: 0,
+        ...outcome,
+      });
+
+    expect(compare({ score: 1.5 })).toThrow(
+      "Comparison score must be between 0 and 1"
+    );
+    expect(compare({ result: "loss", score: 0.8 })).toThrow(
+      "Comparison result loss does not match score 0.8"
+    );
+    expect(compare({})).toThrow(
+      "Comparison must have a result, score or grade"
+    );
+    expect(ranker.getComparisons()).toHaveLength(0);
+  });
+
+  test("should replace the score when a comparison is amended", () => {
+    const ranker = createRanker(itemIds);
+    ranker.addComparisonResult({
+      id: "c1",
+      itemId1: "a",
+      itemId2: "b",
+      score: 0.9,
+      timestamp: 0,
+    });
+    ranker.amendComparison("c1", { result: "tie" });
+
+    expect(ranker.getComparisons()[0]).toEqual(
+      expect.not.objectContaining({ score: expect.anything() })
+    );
+    expect(ranker.getItemStats("a").currentRating).toBe(1500);
+    expect(Ranker.fromJSON(JSON.stringify(ranker)).getRankings()).toEqual(
+      ranker.getRankings()
+    );
+  });
+});
+
+describe("Top-K Tests", () => {
+  const itemIds = Array.from({ length: 12 }, (_, i) => `item${i + 1}`);
+  const config: Partial<RankerConfig> = {
+    selectionMode: "top-k",
+    topK: 3,
+    minimumComparisons: 1000,
+    seed: 5,
+  };
+
+  // Lower-numbered items are stronger and always win.
+  const runUntilSettled = (ranker: Ranker, limit = 2000): number => {
+    let count = 0;
+    let pair = ranker.getNextComparison();
+    while (pair && count < limit) {
+      const [id1, id2] = pair;
+      ranker.addComparisonResult({
+        itemId1: id1,
+        itemId2: id2,
+        result: Number(id1.slice(4)) < Number(id2.slice(4)) ? "win" : "loss",
+        timestamp: count,
+      });
+      count++;
+      pair = ranker.getNextComparison();
+    }
+    return count;
+  };
+
+  test("should require a configured K", () => {
+    const ranker = createRanker(itemIds, { ...config, topK: null });
+
+    expect(() => ranker.getTopKStatus()).toThrow(
+      "Top-K size is not configured"
+    );
+    expect(() => ranker.getNextComparison()).toThrow(
+      "Top-K selection requires config.topK"
+    );
+  });
+
+  test("should reject a K that is not a positive integer", () => {
+    const ranker = createRanker(itemIds, config);
+
+    [0, -1, 1.5, NaN].forEach((k) =>
+      expect(() => ranker.getTopKStatus(k)).toThrow(
+        "Top-K size must be a positive integer"
+      )
+    );
+  });
+
+  test("should report every item as contested before any comparisons", () => {
+    const status = createRanker(itemIds, config).getTopKStatus();
+
+    expect(status.k).toBe(3);
+    expect(status.topK).toHaveLength(3);
+    expect(status.settled).toBe(false);
+    expect(status.items.every((item) => item.status === "contested")).toBe(
+      true
+    );
+  });
+
+  test("should stop once the top-K set is settled", () => {
+    const ranker = createRanker(itemIds, config);
+    const count = runUntilSettled(ranker);
+    const status = ranker.getTopKStatus();
+
+    expect(count).toBeLessThan(2000);
+    expect(status.settled).toBe(true);
+    expect([...status.topK].sort()).toEqual(["item1", "item2", "item3"]);
+    expect(
+      status.items.filter((item) => !item.inTopK).map((item) => item.status)
+    ).toEqual(new Array(9).fill("out"));
+
+    const comparisons = (id: string) => ranker.getItemStats(id).comparisons;
+    expect(comparisons("item12")).toBeLessThan(comparisons("item3"));
+  });
+
+  test("should keep comparing until the order is settled when requested", () => {
+    const ranker = createRanker(itemIds, { ...config, topKOrdered: true });
+    runUntilSettled(ranker);
+    const status = ranker.getTopKStatus();
+
+    expect(status.orderSettled).toBe(true);
+    expect(status.topK).toEqual(["item1", "item2", "item3"]);
+  });
+});
+
+describe("Convergence Tests", () => {
+  const playRounds = (
+    ranker: Ranker,
+    rounds: number,
+    result: "win" | "loss"
+  ): void => {
+    for (let i = 0; i < rounds; i++) {
+      [
+        ["a", "b"],
+        ["b", "c"],
+        ["a", "c"],
+      ].forEach(([itemId1, itemId2]) =>
+        ranker.addComparisonResult({ itemId1, itemId2, result, timestamp: i })
+      );
+    }
+  };
+
+  let ranker: Ranker;
+
+  beforeEach(() => {
+    ranker = createRanker(["a", "b", "c"]);
+  });
+
+  test("should not report correlations without enough history", () => {
+    playRounds(ranker, 1, "win");
+    const report = ranker.getConvergence();
+
+    expect(report.comparisons).toBe(3);
+    expect(report.window).toBe(3);
+    expect(report.kendallTau).toBeNull();
+    expect(report.spearman).toBeNull();
+    expect(report.uncertainPairs).toEqual([
+      ["a", "b"],
+      ["b", "c"],
+    ]);
+    expect(report.estimatedRemainingComparisons).toBeGreaterThan(0);
+    expect(report.converged).toBe(false);
+  });
+
+  test("should reject settings that can never be reached", () => {
+    expect(() => ranker.getConvergence({ resolution: 0 })).toThrow(
+      "Convergence resolution must be positive"
+    );
+    expect(() => ranker.getConvergence({ confidence: 1 })).toThrow(
+      "Convergence confidence must be between 0 and 1"
+    );
+  });
+
+  test("should correlate the current ranking with an earlier one", () => {
+    playRounds(ranker, 10, "win");
+
+    expect(ranker.getConvergence()).toMatchObject({
+      kendallTau: 1,
+      spearman: 1,
+    });
+
+    playRounds(ranker, 20, "loss");
+    expect(ranker.getConvergence({ window: 60 })).toMatchObject({
+      kendallTau: -1,
+      spearman: -1,
+    });
+  });
+
+  test("should converge once neighbours separate and the order holds", () => {
+    playRounds(ranker, 2, "win");
+    const early = ranker.getConvergence().estimatedRemainingComparisons;
+    playRounds(ranker, 100, "win");
+    const report = ranker.getConvergence();
+
+    expect(early).toBeGreaterThan(0);
+    expect(report.uncertainPairs).toEqual([]);
+    expect(report.estimatedRemainingComparisons).toBe(0);
+    expect(report.converged).toBe(true);
+  });
+});
+
+describe("Event Hook Tests", () => {
+  const itemIds = ["a", "b", "c"];
+
+  test("should notify listeners about items and comparisons", () => {
+    const ranker = createRanker(itemIds);
+    const log: string[] = [];
+    ranker.on("itemAdded", ({ item }) => log.push(`added ${item.id}`));
+    ranker.on("itemRemoved", ({ itemId }) => log.push(`removed ${itemId}`));
+    ranker.on("comparisonAdded", ({ comparison, ratingDelta }) =>
+      log.push(`compared ${comparison.id} ${ratingDelta}`)
+    );
+
+    ranker.addItem("d");
+    const delta = ranker.addComparisonResult({
+      id: "c1",
+      itemId1: "a",
+      itemId2: "b",
+      result: "win",
+      timestamp: 0,
+    });
+    ranker.removeItem("d");
+
+    expect(log).toEqual(["added d", `compared c1 ${delta}`, "removed d"]);
+  });
+
+  test("should report rating changes with before and after values", () => {
+    const ranker = createRanker(itemIds);
+    const changes: Array<[string, number, number]> = [];
+    ranker.on("ratingChanged", ({ itemId, before, after }) =>
+      changes.push([itemId, before, after])
+    );
+
+    ranker.addComparisonResult({
+      id: "c1",
+      itemId1: "a",
+      itemId2: "b",
+      result: "win",
+      timestamp: 0,
+    });
+    ranker.retractComparison("c1");
+
+    expect(changes).toEqual([
+      ["a", 1500, 1516],
+      ["b", 1500, 1484],
+      ["a", 1516, 1500],
+      ["b", 1484, 1500],
+    ]);
+  });
+
+  test("should report ranking order changes only when the order moves", () => {
+    const ranker = createRanker(itemIds);
+    const rankings: string[][] = [];
+    ranker.on("rankingChanged", ({ after }) => rankings.push(after));
+
+    const compare = (itemId1: string, itemId2: string) =>
+      ranker.addComparisonResult({
+        itemId1,
+        itemId2,
+        result: "win",
+        timestamp: 0,
+      });
+    compare("a", "c");
+    compare("a", "b");
+    compare("c", "b");
+
+    expect(rankings).toEqual([["a", "c", "b"]]);
+  });
+
+  test("should report progress crossing configured thresholds", () => {
+    const ranker = createRanker(
+      itemIds,
+      {},
+      {
+        progressThresholds: {
+          params: { ratingChangeThreshold: 100, stableComparisonsThreshold: 1 },
+          thresholds: [0.5, 1],
+        },
+      }
+    );
+    const crossings: Array<[number, string]> = [];
+    ranker.on("progressThresholdCrossed", ({ threshold, direction }) =>
+      crossings.push([threshold, direction])
+    );
+
+    ranker.addComparisonResult({
+      itemId1: "a",
+      itemId2: "b",
+      result: "win",
+      timestamp: 0,
+    });
+    ranker.addComparisonResult({
+      itemId1: "b",
+      itemId2: "c",
+      result: "win",
+      timestamp: 0,
+    });
+    ranker.addItem("d");
+
+    expect(crossings).toEqual([
+      [0.5, "up"],
+      [1, "up"],
+      [1, "down"],
+    ]);
+  });
+
+  test("should not report progress crossings for the first item", () => {
+    const ranker = createRanker(
+      [],
+      {},
+      {
+        progressThresholds: {
+          params: { ratingChangeThreshold: 100, stableComparisonsThreshold: 1 },
+          thresholds: [0.5],
+        },
+      }
+    );
+    const listener = jest.fn();
+    ranker.on("progressThresholdCrossed", listener);
+    ranker.addItem("a");
+    ranker.addItem("b");
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  test("should report listener errors without failing the change", () => {
+    const errors: unknown[] = [];
+    const ranker = createRanker(
+      itemIds,
+      {},
+      { onListenerError: (error) => errors.push(error) }
+    );
+    const listener = jest.fn();
+    ranker.on("itemAdded", () => {
+      throw new Error("listener failed");
+    });
+    ranker.on("itemAdded", listener);
+
+    expect(() => ranker.addItem("d")).not.toThrow();
+    expect(ranker.getItemStats("d").id).toBe("d");
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(errors).toEqual([new Error("listener failed")]);
+  });
+
+  test("should stop notifying removed listeners", () => {
+    const ranker = createRanker(itemIds);
+    const listener = jest.fn();
+    ranker.on("itemAdded", listener);
+    ranker.addItem("d");
+    ranker.off("itemAdded", listener);
+    ranker.addItem("e");
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("Tournament Tests", () => {
+  const itemIds = ["item1", "item2", "item3", "item4", "item5", "item6"];
+
+  const delay = (ms: number) =>
+    new Promise((resolve) => setTimeout(resolve, ms));
+
+  // Lower-numbered items are stronger.
+  const compareById: CompareFunction = async (itemId1, itemId2) => {
+    await delay(1);
+    return itemId1 < itemId2 ? "win" : "loss";
+  };
+
+  test("should run comparisons until the ranker has no more pairs", async () => {
+    const ranker = createRanker(itemIds, { minimumComparisons: 3 });
+    const result = await runTournament(ranker, compareById);
+
+    expect(result.stopReason).toBe("exhausted");
+    expect(result.completed).toBe(ranker.getComparisons().length);
+    expect(ranker.getNextComparison()).toBeNull();
+  });
+
+  test("should timestamp comparisons with the ranker's clock", async () => {
+    const ranker = createRanker(
+      itemIds,
+      { minimumComparisons: 1 },
+      { clock: () => 42 }
+    );
+    await runTournament(ranker, compareById);
+
+    expect(ranker.getComparisons().length).toBeGreaterThan(0);
+    ranker
+      .getComparisons()
+      .forEach((comparison) => expect(comparison.timestamp).toBe(42));
+  });
+
+  test("should bound concurrency and never judge an item twice at once", async () => {
+    const ranker = createRanker(itemIds, { minimumComparisons: 3 });
+    const active = new Set<string>();
+    let maxActive = 0;
+    let overlap = false;
+
+    await runTournament(
+      ranker,
+      async (itemId1, itemId2) => {
+        if (active.has(itemId1) || active.has(itemId2)) overlap = true;
+        active.add(itemId1).add(itemId2);
+        maxActive = Math.max(maxActive, active.size / 2);
+        await delay(2);
+        active.delete(itemId1);
+        active.delete(itemId2);
+        return "tie";
+      },
+      { concurrency: 3 }
+    );
+
+    expect(maxActive).toBe(3);
+    expect(overlap).toBe(false);
+  });
+
+  test("should stop at the comparison budget and report progress", async () => {
+    const progress: number[] = [];
+    const result = await runTournament(
+      createRanker(itemIds, { minimumComparisons: 3 }),
+      compareById,
+      {
+        budget: 4,
+        concurrency: 2,
+        onProgress: ({ completed, budget }) => {
+          expect(budget).toBe(4);
+          progress.push(completed);
+        },
+      }
+    );
+
+    expect(result).toEqual({ completed: 4, retries: 0, stopReason: "budget" });
+    expect(progress).toEqual([1, 2, 3, 4]);
+  });
+
+  test("should retry failed and timed-out comparisons", async () => {
+    const attempts = new Map<string, number>();
+    const result = await runTournament(
+      createRanker(itemIds, { minimumComparisons: 3 }),
+      async (itemId1, itemId2) => {
+        const key = `${itemId1}-${itemId2}`;
+        attempts.set(key, (attempts.get(key) ?? 0) + 1);
+        if (attempts.get(key) === 1) await delay(50);
+        if (attempts.get(key) === 2) throw new Error("Judge unavailable");
+        return "win";
+      },
+      { budget: 2, retries: 2, timeout: 10 }
+    );
+
+    expect(result).toEqual({ completed: 2, retries: 4, stopReason: "budget" });
+  });
+
+  test("should reject when a comparison keeps failing", async () => {
+    const ranker = createRanker(itemIds, { minimumComparisons: 3 });
+
+    await expect(
+      runTournament(ranker, () => new Promise(() => {}), {
+        retries: 1,
+        timeout: 5,
+      })
+    ).rejects.toThrow("Comparison timed out after 5ms");
+    expect(ranker.getComparisons()).toHaveLength(0);
+  });
+
+  test("should stop when aborted", async () => {
+    const controller = new AbortController();
+    const ranker = createRanker(itemIds, { minimumComparisons: 3 });
+    const result = await runTournament(ranker, compareById, {
+      signal: controller.signal,
+      onProgress: ({ completed }) => {
+        if (completed === 3) controller.abort();
+      },
+    });
+
+    expect(result.stopReason).toBe("aborted");
+    expect(ranker.getComparisons()).toHaveLength(3);
+  });
+
+  test("should stop once the convergence criterion is met", async () => {
+    const ranker = createRanker(itemIds, { minimumComparisons: 1000 });
+    const result = await runTournament(ranker, compareById, {
+      stopWhen: (current) => current.getComparisons().length >= 5,
+    });
+
+    expect(result.stopReason).toBe("converged");
+    expect(result.completed).toBe(5);
+  });
+});
+
+describe("Position Bias Tests", () => {
+  const itemIds = ["a", "b", "c", "d"];
+
+  // A judge that always prefers whichever item is shown first.
+  const firstAlwaysWins = (ranker: Ranker, pairs: string[][]) =>
+    pairs.forEach(([itemId1, itemId2]) =>
+      ranker.addComparisonResult({
+        itemId1,
+        itemId2,
+        result: "win",
+        timestamp: 0,
+      })
+    );
+
+  test("should report no advantage before any comparisons", () => {
+    expect(createRanker(itemIds).getPositionBias()).toEqual({
+      comparisons: 0,
+      firstPositionScore: null,
+      advantage: 0,
+      corrected: false,
+    });
+  });
+
+  test("should estimate the first-position advantage", () => {
+    const ranker = createRanker(itemIds, { positionBias: "estimate" });
+    firstAlwaysWins(ranker, [
+      ["c", "d"],
+      ["d", "c"],
+      ["c", "d"],
+    ]);
+    const bias = ranker.getPositionBias();
+
+    expect(bias.firstPositionScore).toBe(1);
+    expect(bias.advantage).toBeCloseTo(400 * Math.log10(4));
+    expect(bias.corrected).toBe(true);
+  });
+
+  test("should discount wins explained by the first position", () => {
+    const gap = (config: Partial<RankerConfig>) => {
+      const ranker = createRanker(itemIds, config);
+      for (let i = 0; i < 10; i++) {
+        firstAlwaysWins(ranker, [
+          ["c", "d"],
+          ["d", "c"],
+        ]);
+      }
+      firstAlwaysWins(ranker, new Array(5).fill(["a", "b"]));
+      return (
+        ranker.getItemStats("a").currentRating -
+        ranker.getItemStats("b").currentRating
+      );
+    };
+
+    expect(gap({ positionBias: "estimate" })).toBeLessThan(
+      gap({ positionBias: "none" }) / 3
+    );
+  });
+
+  test("should keep correcting for position bias after a snapshot", () => {
+    const ranker = createRanker(itemIds, { positionBias: "estimate" });
+    firstAlwaysWins(ranker, [
+      ["c", "d"],
+      ["d", "c"],
+    ]);
+    const restored = Ranker.fromJSON(JSON.stringify(ranker));
+
+    firstAlwaysWins(ranker, [["a", "b"]]);
+    firstAlwaysWins(restored, [["a", "b"]]);
+    expect(restored.getRankings()).toEqual(ranker.getRankings());
+  });
+
+  test("should alternate presentation order when estimating bias", () => {
+    const ranker = createRanker(["a", "b"], { positionBias: "estimate" });
+    const firsts: string[] = [];
+    for (let i = 0; i < 6; i++) {
+      const [itemId1, itemId2] = ranker.getNextComparison()!;
+      firsts.push(itemId1);
+      ranker.addComparisonResult({
+        itemId1,
+        itemId2,
+        result: "tie",
+        timestamp: i,
+      });
+    }
+
+    expect(firsts.filter((id) => id === "a")).toHaveLength(3);
+    expect(firsts.filter((id) => id === "b")).toHaveLength(3);
+  });
+
+  test("should keep the strategy's order when not estimating bias", () => {
+    const ranker = createRanker(
+      ["a", "b"],
+      { selectionMode: "a-first" },
+      {
+        selectionStrategies: [
+          { name: "a-first", selectPair: () => ["a", "b"] },
+        ],
+      }
+    );
+    firstAlwaysWins(ranker, [["a", "b"]]);
+
+    expect(ranker.getNextComparison()).toEqual(["a", "b"]);
+  });
+});
+
+describe("Consistency Tests", () => {
+  const itemIds = ["a", "b", "c", "d"];
+
+  const recordWins = (ranker: Ranker, pairs: string[][]): void =>
+    pairs.forEach(([winner, loser], index) =>
+      ranker.addComparisonResult({
+        id: `c${index}`,
+        itemId1: winner,
+        itemId2: loser,
+        result: "win",
+        timestamp: index,
+      })
+    );
+
+  test("should report full consistency for transitive judgments", () => {
+    const ranker = createRanker(itemIds);
+    recordWins(ranker, [
+      ["a", "b"],
+      ["b", "c"],
+      ["a", "c"],
+      ["c", "d"],
+    ]);
+    const report = ranker.getConsistency();
+
+    expect(report.consistency).toBe(1);
+    expect(report.triads).toBe(1);
+    expect(report.cycles).toEqual([]);
+    expect(report.cyclicGroups).toEqual([]);
+  });
+
+  test("should find intransitive cycles", () => {
+    const ranker = createRanker(itemIds);
+    recordWins(ranker, [
+      ["a", "b"],
+      ["b", "c"],
+      ["c", "a"],
+      ["a", "d"],
+      ["b", "d"],
+      ["c", "d"],
+    ]);
+    const report = ranker.getConsistency();
+
+    expect(report.triads).toBe(4);
+    expect(report.cyclicTriads).toBe(1);
+    expect(report.consistency).toBe(0.75);
+    expect(report.cycles).toEqual([["a", "b", "c"]]);
+    expect(report.cyclicGroups.map((group) => [...group].sort())).toEqual([
+      ["a", "b", "c"],
+    ]);
+  });
+
+  test("should use the majority verdict for repeated pairs", () => {
+    const ranker = createRanker(itemIds);
+    recordWins(ranker, [
+      ["a", "b"],
+      ["b", "c"],
+      ["c", "a"],
+      ["a", "c"],
+      ["a", "c"],
+    ]);
+    const report = ranker.getConsistency();
+
+    expect(report.consistency).toBe(1);
+    expect(
+      report.suspectComparisons.map(({ comparison }) => comparison.id)
+    ).toEqual(["c2"]);
+  });
+
+  test("should rank upsets that close cycles as most suspect", () => {
+    const ranker = createRanker(itemIds);
+    recordWins(ranker, [
+      ["a", "b"],
+      ["a", "b"],
+      ["b", "c"],
+      ["c", "a"],
+    ]);
+    const report = ranker.getConsistency({ maxSuspects: 2 });
+
+    expect(report.suspectComparisons).toHaveLength(2);
+    expect(
+      report.suspectComparisons.map(({ comparison }) => comparison.id).sort()
+    ).toEqual(["c2", "c3"]);
+    report.suspectComparisons.forEach(({ cycles, upset }) => {
+      expect(cycles).toBe(1);
+      expect(upset).toBeGreaterThan(0);
+    });
+  });
+});
+
+describe("Multi-Criteria Tests", () => {
+  let ranker: MultiCriteriaRanker;
+
+  beforeEach(() => {
+    ranker = new MultiCriteriaRanker({ accuracy: 2, style: 1 }, [], {
+      minimumComparisons: 2,
+    });
+    ["a", "b", "c"].forEach((id) => ranker.addItem(id));
+  });
+
+  const compare = (
+    ranker: MultiCriteriaRanker,
+    criterion: string,
+    itemId1: string,
+    itemId2: string
+  ) =>
+    ranker.addComparisonResult({
+      criterion,
+      itemId1,
+      itemId2,
+      result: "win",
+      timestamp: 0,
+    });
+
+  test("should share items and rate each criterion separately", () => {
+    ranker.addItem("d");
+    compare(ranker, "accuracy", "a", "b");
+    compare(ranker, "style", "b", "a");
+
+    expect(ranker.getCriteria()).toEqual(["accuracy", "style"]);
+    expect(ranker.getRankings("accuracy")[0].id).toBe("a");
+    expect(ranker.getRankings("style")[0].id).toBe("b");
+    expect(ranker.getRanker("style").getItemCount()).toBe(4);
+    expect(() => compare(ranker, "safety", "a", "b")).toThrow(
+      "Unknown criterion safety"
+    );
+  });
+
+  test("should aggregate ratings with criterion weights", () => {
+    compare(ranker, "accuracy", "a", "b");
+    compare(ranker, "style", "b", "a");
+    compare(ranker, "style", "b", "c");
+
+    const [top] = ranker.getAggregateRankings();
+    expect(top.id).toBe("a");
+    expect(top.rating).toBeCloseTo(
+      (2 * top.ratings.accuracy + top.ratings.style) / 3
+    );
+    expect(ranker.getAggregateRankings({ style: 1 })[0].id).toBe("b");
+    expect(() => ranker.getAggregateRankings({ accuracy: 0 })).toThrow(
+      "Criterion weights must sum to a positive number"
+    );
+  });
+
+  test("should ask about the criterion furthest behind its weight", () => {
+    const asked: string[] = [];
+    let next = ranker.getNextComparison();
+    while (next) {
+      asked.push(next.criterion);
+      compare(ranker, next.criterion, ...next.pair);
+      next = ranker.getNextComparison();
+    }
+
+    expect(asked.slice(0, 3)).toEqual(["accuracy", "style", "accuracy"]);
+    expect(ranker.getNextComparison("style")).toBeNull();
+  });
+
+  test("should reject negative or non-finite weights", () => {
+    [-1, NaN, Infinity].forEach((weight) =>
+      expect(
+        () => new MultiCriteriaRanker({ accuracy: 1, style: weight }, [], {})
+      ).toThrow("Weight for criterion style must be a non-negative number")
+    );
+    expect(() =>
+      ranker.getAggregateRankings({ accuracy: 2, style: -1 })
+    ).toThrow("Weight for criterion style must be a non-negative number");
+  });
+
+  test("should carry item metadata through every criterion", () => {
+    const typed = new MultiCriteriaRanker<{ family: string }>(
+      { accuracy: 1, style: 1 },
+      [],
+      {}
+    );
+    typed.addItem("a", undefined, { metadata: { family: "gpt" } });
+
+    expect(typed.getRankings("style")[0].metadata?.family).toBe("gpt");
+    expect(typed.getRanker("accuracy").getItemStats("a").metadata).toEqual({
+      family: "gpt",
+    });
+  });
+
+  test("should restore every criterion from a snapshot", () => {
+    compare(ranker, "accuracy", "a", "b");
+    const restored = MultiCriteriaRanker.fromJSON(JSON.stringify(ranker));
+
+    expect(restored.getAggregateRankings()).toEqual(
+      ranker.getAggregateRankings()
+    );
+    expect(() => MultiCriteriaRanker.fromJSON({ criteria: {} })).toThrow(
+      "Invalid snapshot: criteria must be a non-empty object"
+    );
+  });
+});
+
+describe("Item Metadata Tests", () => {
+  type ModelMetadata = { family: string; size: number };
+
+  let ranker: Ranker<ModelMetadata>;
+
+  beforeEach(() => {
+    ranker = createRanker<ModelMetadata>([]);
+    ranker.addItem("gpt-a", undefined, {
+      metadata: { family: "gpt", size: 7 },
+      tags: ["prompt", "short"],
+    });
+    ranker.addItem("gpt-b", undefined, {
+      metadata: { family: "gpt", size: 70 },
+      tags: ["prompt"],
+    });
+    ranker.addItem("llama-a", undefined, {
+      metadata: { family: "llama", size: 7 },
+      tags: ["prompt", "short"],
+    });
+    ranker.addItem("baseline");
+    [
+      ["gpt-b", "gpt-a"],
+      ["llama-a", "gpt-a"],
+      ["gpt-b", "llama-a"],
+      ["baseline", "gpt-b"],
+    ].forEach(([itemId1, itemId2]) =>
+      ranker.addComparisonResult({
+        itemId1,
+        itemId2,
+        result: "win",
+        timestamp: 0,
+      })
+    );
+  });
+
+  test("should keep metadata and tags on items and snapshots", () => {
+    const restored = Ranker.fromJSON(JSON.stringify(ranker));
+
+    expect(ranker.getItemStats("gpt-a")).toMatchObject({
+      metadata: { family: "gpt", size: 7 },
+      tags: ["prompt", "short"],
+    });
+    expect(restored.getItemStats("gpt-a").tags).toEqual(["prompt", "short"]);
+    expect(
+      Ranker.fromEventLog(ranker.getEventLog(), {}).getItemStats("llama-a")
+        .metadata
+    ).toEqual({ family: "llama", size: 7 });
+  });
+
+  test("should filter rankings by tag and predicate", () => {
+    expect(ranker.getRankings({ tags: ["short"] }).map((i) => i.id)).toEqual([
+      "llama-a",
+      "gpt-a",
+    ]);
+    expect(
+      ranker
+        .getRankings({ filter: (item) => item.metadata?.size === 70 })
+        .map((item) => item.id)
+    ).toEqual(["gpt-b"]);
+  });
+
+  test("should group rankings by a metadata field", () => {
+    const groups = ranker.getGroupedRankings("family");
+
+    expect(Object.keys(groups).sort()).toEqual(["gpt", "llama"]);
+    expect(groups.gpt.map((item) => item.id)).toEqual(["gpt-b", "gpt-a"]);
+    expect(groups.llama[0].id).toBe("llama-a");
+  });
+
+  test("should carry the metadata type through results", () => {
+    const restored = Ranker.fromJSON<ModelMetadata>(JSON.stringify(ranker));
+
+    expect(
+      ranker
+        .getRankings()
+        .reduce((total, item) => total + (item.metadata?.size ?? 0), 0)
+    ).toBe(84);
+    expect(restored.getItemStats("gpt-b").metadata?.family.toUpperCase()).toBe(
+      "GPT"
+    );
+    // @ts-expect-error colour is not a metadata field
+    expect(ranker.getGroupedRankings("colour")).toEqual({});
+  });
+
+  test("should restrict pair selection to matching items", () => {
+    for (let i = 0; i < 5; i++) {
+      const pair = ranker.getNextComparison({ tags: ["short"] })!;
+      expect([...pair].sort()).toEqual(["gpt-a", "llama-a"]);
+    }
+    expect(
+      ranker.getNextComparison({ filter: (item) => item.id === "baseline" })
+    ).toBeNull();
+  });
+});
+
+describe("K Schedule Tests", () => {
+  const win = (ranker: Ranker, itemId1: string, itemId2: string) =>
+    ranker.addComparisonResult({
+      itemId1,
+      itemId2,
+      result: "win",
+      timestamp: 0,
+    });
+
+  test("should use the provisional K until items are established", () => {
+    const ranker = createRanker(["a", "b", "c"], {
+      provisionalComparisons: 2,
+      provisionalKFactor: 64,
+    });
+
+    win(ranker, "a", "b");
+    expect(ranker.getItemStats("a").currentRating).toBeCloseTo(1532);
+
+    win(ranker, "c", "a");
+    const a = ranker.getItemStats("a").currentRating;
+    const b = ranker.getItemStats("b").currentRating;
+    win(ranker, "a", "b");
+    const expected = 1 / (1 + Math.pow(10, (b - a) / 400));
+    expect(ranker.getItemStats("a").currentRating).toBeCloseTo(
+      a + 32 * (1 - expected)
+    );
+  });
+
+  test("should decay K linearly over the provisional period", () => {
+    const ranker = createRanker(["a", "b", "c"], {
+      provisionalComparisons: 4,
+      provisionalKFactor: 64,
+      kFactorDecay: true,
+    });
+
+    win(ranker, "a", "b");
+    expect(ranker.getItemStats("a").currentRating).toBeCloseTo(1532);
+
+    win(ranker, "a", "c");
+    const expected = 1 / (1 + Math.pow(10, -32 / 400));
+    expect(ranker.getItemStats("a").currentRating).toBeCloseTo(
+      1532 + 56 * (1 - expected)
+    );
+    expect(ranker.getItemStats("c").currentRating).toBeCloseTo(
+      1500 - 64 * (1 - expected)
+    );
+  });
+
+  test("should pick K from the highest reached rating bracket", () => {
+    const ranker = new Ranker([], {
+      kFactorBrackets: [
+        { minRating: 2400, kFactor: 10 },
+        { minRating: 2000, kFactor: 20 },
+      ],
+    });
+    ranker.addItem("master", 2400);
+    ranker.addItem("master2", 2400);
+    ranker.addItem("expert", 2000);
+    ranker.addItem("expert2", 2000);
+
+    win(ranker, "master", "master2");
+    win(ranker, "expert", "expert2");
+    expect(ranker.getItemStats("master").currentRating).toBeCloseTo(2405);
+    expect(ranker.getItemStats("expert").currentRating).toBeCloseTo(2010);
+  });
+
+  test("should flag provisional items in stats and rankings", () => {
+    const ranker = createRanker(["a", "b"], { provisionalComparisons: 1 });
+    win(ranker, "a", "b");
+    ranker.addItem("late");
+
+    expect(ranker.getItemStats("a").provisional).toBe(false);
+    expect(
+      Object.fromEntries(
+        ranker.getRankings().map((item) => [item.id, item.provisional])
+      )
+    ).toEqual({ a: false, b: false, late: true });
+  });
+
+  test("should accept a custom K function", () => {
+    const ranker = createRanker(
+      ["fast", "slow"],
+      {},
+      { kFactor: (item) => (item.id === "fast" ? 100 : 0) }
+    );
+    win(ranker, "fast", "slow");
+
+    expect(ranker.getItemStats("fast").currentRating).toBeCloseTo(1550);
+    expect(ranker.getItemStats("slow").currentRating).toBe(1500);
+  });
+
+  test("should keep the schedule in snapshots", () => {
+    const config = {
+      provisionalComparisons: 5,
+      provisionalKFactor: 48,
+      kFactorDecay: true,
+      kFactorBrackets: [{ minRating: 2000, kFactor: 16 }],
+    };
+    const snapshot = new Ranker([], config).toJSON();
+
+    expect(
+      Ranker.fromJSON(JSON.stringify(snapshot)).toJSON().config
+    ).toMatchObject(config);
+    expect(() =>
+      Ranker.fromJSON(
+        JSON.stringify({
+          ...snapshot,
+          config: {
+            ...snapshot.config,
+            kFactorBrackets: [{ minRating: "high" }],
+          },
+        })
+      )
+    ).toThrow("config.kFactorBrackets[0].minRating");
+  });
+});
+
+describe("Inactivity Decay Tests", () => {
+  let now: number;
+  const clock = () => now;
+  const compare = (ranker: Ranker, timestamp: number) =>
+    ranker.addComparisonResult({
+      itemId1: "a",
+      itemId2: "b",
+      result: "win",
+      timestamp,
+    });
+
+  beforeEach(() => {
+    now = 0;
+  });
+
+  test("should decay ratings towards the mean per idle period", () => {
+    const ranker = createRanker(
+      ["a", "b"],
+      {
+        inactivityDecay: "rating",
+        inactivityPeriod: 1000,
+        ratingDecayRate: 0.5,
+      },
+      { clock }
+    );
+    compare(ranker, 0);
+
+    now = 999;
+    expect(ranker.getItemStats("a").currentRating).toBeCloseTo(1516);
+    now = 2500;
+    expect(ranker.getItemStats("a").currentRating).toBeCloseTo(1504);
+    const [first, second] = ranker.getRankings();
+    expect(first.currentRating).toBeCloseTo(1504);
+    expect(second.currentRating).toBeCloseTo(1496);
+    expect(ranker.getAllItems()[0].currentRating).toBeCloseTo(1516);
+  });
+
+  test("should apply decay before rating a late comparison", () => {
+    const ranker = createRanker(
+      ["a", "b"],
+      { inactivityDecay: "rating", inactivityPeriod: 1000, ratingDecayRate: 1 },
+      { clock }
+    );
+    compare(ranker, 0);
+    compare(ranker, 5000);
+
+    expect(ranker.getItemStats("a").currentRating).toBeCloseTo(1516);
+    expect(
+      Ranker.fromEventLog(ranker.getEventLog(), ranker.toJSON().config, {
+        clock,
+      }).getItemStats("a").currentRating
+    ).toBeCloseTo(1516);
+  });
+
+  test("should grow the rating deviation of idle Glicko-2 items", () => {
+    const ranker = createRanker(
+      ["a", "b"],
+      {
+        ratingModel: "glicko2",
+        inactivityDecay: "uncertainty",
+        inactivityPeriod: 1000,
+      },
+      { clock }
+    );
+    compare(ranker, 0);
+    const deviation = ranker.getItemStats("a").ratingDeviation!;
+
+    now = 3000;
+    const growth = 0.06 * 173.7178;
+    expect(ranker.getItemStats("a").ratingDeviation).toBeCloseTo(
+      Math.sqrt(deviation ** 2 + 3 * growth ** 2)
+    );
+    now = 1e9;
+    expect(ranker.getItemStats("a").ratingDeviation).toBeCloseTo(350);
+    expect(ranker.getItemStats("a").currentRating).toBeCloseTo(
+      ranker.getAllItems()[0].currentRating
+    );
+  });
+
+  test("should suggest stale items for re-evaluation", () => {
+    const config: Partial<RankerConfig> = {
+      minimumComparisons: 1,
+      inactivityPeriod: 1000,
+    };
+    const ranker = createRanker(
+      ["a", "b"],
+      { ...config, inactivityDecay: "rating" },
+      { clock }
+    );
+    const undecayed = createRanker(["a", "b"], config, { clock });
+    [ranker, undecayed].forEach((r) => compare(r, 0));
+
+    expect(ranker.getNextComparison()).toBeNull();
+    now = 1000;
+    expect([...ranker.getNextComparison()!].sort()).toEqual(["a", "b"]);
+    expect(undecayed.getNextComparison()).toBeNull();
+  });
+
+  test("should measure convergence at the ranker's own time", () => {
+    const ranker = createRanker(
+      ["c", "b", "a"],
+      { inactivityDecay: "rating" },
+      { clock }
+    );
+    [
+      ["a", "b"],
+      ["b", "c"],
+      ["a", "c"],
+      ["a", "b"],
+    ].forEach(([itemId1, itemId2]) =>
+      ranker.addComparisonResult({
+        itemId1,
+        itemId2,
+        result: "win",
+        timestamp: 0,
+      })
+    );
+
+    expect(ranker.getRankings().map((item) => item.id)).toEqual([
+      "a",
+      "b",
+      "c",
+    ]);
+    expect(ranker.getConvergence({ window: 1 }).kendallTau).toBe(1);
+  });
+
+  test("should centre uncertainty on the decayed rating", () => {
+    const ranker = createRanker(
+      ["a", "b"],
+      {
+        inactivityDecay: "rating",
+        inactivityPeriod: 1000,
+        ratingDecayRate: 0.5,
+      },
+      { clock }
+    );
+    compare(ranker, 0);
+    ranker.addComparisonResult({
+      itemId1: "a",
+      itemId2: "b",
+      result: "loss",
+      timestamp: 0,
+    });
+    compare(ranker, 0);
+    const offsets = () => {
+      const stats = ranker.getItemStats("a", { uncertainty: { seed: 1 } });
+      const { lower, upper } = stats.uncertainty!.ratingInterval;
+      return [lower - stats.currentRating, upper - stats.currentRating];
+    };
+
+    const fresh = offsets();
+    now = 3000;
+    const idle = offsets();
+
+    expect(idle[0]).toBeCloseTo(fresh[0]);
+    expect(idle[1]).toBeCloseTo(fresh[1]);
+  });
+
+  test("should validate the decay policy in snapshots", () => {
+    const snapshot = new Ranker([], { inactivityDecay: "rating" }).toJSON();
+
+    expect(
+      Ranker.fromJSON(JSON.stringify(snapshot)).toJSON().config.inactivityDecay
+    ).toBe("rating");
+    expect(() =>
+      Ranker.fromJSON(
+        JSON.stringify({
+          ...snapshot,
+          config: { ...snapshot.config, inactivityDecay: "fade" },
+        })
+      )
+    ).toThrow("config.inactivityDecay");
+  });
+});
+
+describe("Tier Tests", () => {
+  let ranker: Ranker;
+
+  beforeEach(() => {
+    ranker = createRanker(["a", "b", "c", "d", "e", "f"], {
+      ratingModel: "glicko2",
+      seed: 3,
+    });
+    // a and b, c and d, e and f are evenly matched; each pair clearly
+    // beats the next.
+    const strength: Record<string, number> = {
+      a: 2,
+      b: 2,
+      c: 1,
+      d: 1,
+      e: 0,
+      f: 0,
+    };
+    const ids = Object.keys(strength);
+    for (let round = 0; round < 12; round++) {
+      ids.forEach((id1, i) =>
+        ids.slice(i + 1).forEach((id2) => {
+          const diff = strength[id1] - strength[id2];
+          ranker.addComparisonResult({
+            itemId1: id1,
+            itemId2: id2,
+            result:
+              diff > 0 ? "win" : diff < 0 ? "loss" : round % 2 ? "win" : "loss",
+            timestamp: 0,
+          });
+        })
+      );
+    }
+  });
+
+  test("should group indistinguishable items into tiers", () => {
+    const tiers = ranker.getTiers();
+
+    expect(tiers.map((tier) => tier.label)).toEqual(["1", "2", "3"]);
+    expect(
+      tiers.map((tier) => tier.items.map((item) => item.id).sort())
+    ).toEqual([
+      ["a", "b"],
+      ["c", "d"],
+      ["e", "f"],
+    ]);
+  });
+
+  test("should put everything in one tier before any comparisons", () => {
+    const tiers = createRanker(["a", "b", "c"]).getTiers();
+    expect(tiers).toHaveLength(1);
+    expect(tiers[0].items).toHaveLength(3);
+  });
+
+  test("should merge tiers as the confidence level rises", () => {
+    expect(ranker.getTiers({ confidence: 0.5 }).length).toBeGreaterThanOrEqual(
+      ranker.getTiers().length
+    );
+    expect(ranker.getTiers({ confidence: 0.999 }).length).toBeLessThanOrEqual(
+      ranker.getTiers().length
+    );
+  });
+
+  test("should reject confidence levels outside (0, 1)", () => {
+    [0, 1, -0.5, NaN].forEach((confidence) =>
+      expect(() => ranker.getTiers({ confidence })).toThrow(
+        "Tier confidence must be between 0 and 1"
+      )
+    );
+  });
+
+  test("should label tiers with letters or custom labels", () => {
+    expect(ranker.getTiers({ labels: "letters" }).map((t) => t.label)).toEqual([
+      "S",
+      "A",
+      "B",
+    ]);
+    const custom = ranker.getTiers({ labels: ["top", "rest"] });
+    expect(custom.map((tier) => tier.label)).toEqual(["top", "rest"]);
+    expect(custom[1].items).toHaveLength(4);
+    expect(() => ranker.getTiers({ labels: [] })).toThrow(
+      "Tier labels must not be empty"
+    );
+  });
+
+  test("should build tiers from filtered items", () => {
+    const tiers = ranker.getTiers({ filter: (item) => item.id !== "a" });
+    expect(tiers[0].items.map((item) => item.id)).toEqual(["b"]);
+    expect(tiers.flatMap((tier) => tier.items)).toHaveLength(5);
+  });
+});
+
+describe("CLI Tests", () => {
+  const createIO = (files: Record<string, string>, keys: string[] = []) => {
+    const output: string[] = [];
+    const errors: string[] = [];
+    const io: CliIO = {
+      readFile: (path) => {
+        if (!(path in files)) throw new Error(`ENOENT: ${path}`);
+        return files[path];
+      },
+      writeFile: (path, contents) => {
+        files[path] = contents;
+      },
+      exists: (path) => path in files,
+      print: (text) => output.push(text),
+      printError: (text) => errors.push(text),
+      readKey: async () => keys.shift() ?? "q",
+      clock: () => 1000,
+    };
+    return { io, files, output, errors };
+  };
+
+  test("should parse quoted CSV fields", () => {
+    expect(parseCsv('id,text\r\na,"Hello, ""world""\nagain"\n\nb,x\n')).toEqual(
+      [
+        ["id", "text"],
+        ["a", 'Hello, "world"\nagain'],
+        ["b", "x"],
+      ]
+    );
+  });
+
+  test("should create a session and import comparisons", async () => {
+    const { io, files, output } = createIO({
+      "items.csv": "id,text\na,first\nb,second\nc,third\n",
+      "results.jsonl":
+        '{"itemId1":"a","itemId2":"b","result":"win"}\n' +
+        '{"itemId1":"b","itemId2":"c","grade":"much better","timestamp":5}\n',
+    });
+
+    expect(await runCli(["init", "s.json", "--items", "items.csv"], io)).toBe(
+      0
+    );
+    expect(await runCli(["import", "s.json", "results.jsonl"], io)).toBe(0);
+
+    const ranker = Ranker.fromJSON(files["s.json"]);
+    expect(ranker.getRankings().map((item) => item.id)).toEqual([
+      "a",
+      "b",
+      "c",
+    ]);
+    expect(ranker.getItemStats("a").metadata).toEqual({ text: "first" });
+    expect(ranker.getComparisons()[1].timestamp).toBe(5);
+    expect(output).toEqual([
+      "Created s.json with 3 items",
+      "Recorded 2 comparisons",
+    ]);
+  });
+
+  test("should print rankings and record single results", async () => {
+    const { io, output } = createIO({ "items.json": '["a", "b"]' });
+    await runCli(["init", "s.json", "--items", "items.json"], io);
+
+    expect(await runCli(["record", "s.json", "b", "a", "win"], io)).toBe(0);
+    expect(await runCli(["rankings", "s.json"], io)).toBe(0);
+    expect(output[1].split("\n")).toEqual([
+      "Rank  Item  Rating  W-L-T",
+      "   1  b *   1516.0  1-0-0",
+      "   2  a *   1484.0  0-1-0",
+      "",
+      "* provisional rating",
+    ]);
+    await runCli(["rankings", "s.json", "--json", "--limit", "1"], io);
+    expect(JSON.parse(output[2]).map((item: RankableItem) => item.id)).toEqual([
+      "b",
+    ]);
+  });
+
+  test("should judge pairs interactively until quit", async () => {
+    const { io, files, output } = createIO(
+      { "items.json": '["a", "b", "c"]' },
+      ["x", "s", "1", "t", "q"]
+    );
+    await runCli(["init", "s.json", "--items", "items.json"], io);
+
+    expect(await runCli(["judge", "s.json"], io)).toBe(0);
+    const comparisons = Ranker.fromJSON(files["s.json"]).getComparisons();
+    expect(comparisons.map((comparison) => comparison.result)).toEqual([
+      "win",
+      "tie",
+    ]);
+    expect(output).toContain("Unrecognised key x");
+    expect(output[output.length - 1]).toBe("Recorded 2 comparisons");
+  });
+
+  test("should report bad input without writing the state", async () => {
+    const { io, files, errors } = createIO({
+      "items.json": '["a", "b"]',
+      "results.csv": "itemId1,itemId2,result\na,b,win\na,b,draw\n",
+    });
+    await runCli(["init", "s.json", "--items", "items.json"], io);
+    const saved = files["s.json"];
+
+    expect(await runCli(["import", "s.json", "results.csv"], io)).toBe(1);
+    expect(await runCli(["init", "s.json"], io)).toBe(1);
+    expect(await runCli(["next", "s.json", "extra.txt"], io)).toBe(0);
+    expect(await runCli(["add-items", "s.json", "items.txt"], io)).toBe(1);
+    expect(files["s.json"]).toBe(saved);
+    expect(errors).toEqual([
+      "eloranker: Row 3: result must be win, loss or tie, not draw",
+      "eloranker: s.json already exists; pass --force to replace it",
+      "eloranker: Cannot tell the format of items.txt; use a .json, .jsonl or .csv file",
+    ]);
+  });
+});
+
+describe("Import and Export Tests", () => {
+  let ranker: Ranker;
+
+  beforeEach(() => {
+    ranker = createRanker(["a", "b", "c"]);
+  });
+
+  test("should import comparisons from CSV with mapped columns", () => {
+    const count = importComparisons(
+      ranker,
+      "winner,loser,outcome,when\na,b,win,2024-01-02T00:00:00Z\nb,c,tie,5\n",
+      {
+        format: "csv",
+        columns: {
+          itemId1: "winner",
+          itemId2: "loser",
+          result: "outcome",
+          timestamp: "when",
+        },
+      }
+    );
+
+    expect(count).toBe(2);
+    expect(
+      ranker.getComparisons().map(({ itemId1, result, timestamp }) => ({
+        itemId1,
+        result,
+        timestamp,
+      }))
+    ).toEqual([
+      { itemId1: "a", result: "win", timestamp: Date.UTC(2024, 0, 2) },
+      { itemId1: "b", result: "tie", timestamp: 5 },
+    ]);
+  });
+
+  test("should import JSONL with scores, grades and a default timestamp", () => {
+    importComparisons(
+      ranker,
+      '{"itemId1":"a","itemId2":"b","score":0.8}\n\n' +
+        '{"itemId1":"c","itemId2":"a","grade":"much worse","judgeId":"j1"}\n',
+      { format: "jsonl", timestamp: 42 }
+    );
+
+    const [first, second] = ranker.getComparisons();
+    expect(first).toMatchObject({ score: 0.8, result: "win", timestamp: 42 });
+    expect(second).toMatchObject({ grade: "much worse", judgeId: "j1" });
+  });
+
+  test("should point at the bad row and import nothing", () => {
+    const csv = "itemId1,itemId2,score\na,b,0.9\nb,c,high\n";
+
+    expect(() => importComparisons(ranker, csv, { format: "csv" })).toThrow(
+      "Row 3: score must be a number, not high"
+    );
+    expect(() =>
+      importComparisons(
+        ranker,
+        '{"itemId1":"a","itemId2":"b","result":"win"}\n\n{"itemId1":"a","itemId2":"z","result":"win"}',
+        { format: "jsonl" }
+      )
+    ).toThrow("Line 3: Item with id z not found");
+    expect(() =>
+      importComparisons(ranker, "x,y\na,b\n", {
+        format: "csv",
+        columns: { winner: "x" } as any,
+      })
+    ).toThrow("Unknown comparison field winner");
+    expect(() =>
+      importComparisons(ranker, "itemId1,itemId2,result\na,b,win\nb,b,win\n", {
+        format: "csv",
+      })
+    ).toThrow("Row 3: Cannot compare an item with itself");
+    expect(() =>
+      importComparisons(
+        ranker,
+        "id,itemId1,itemId2,result\nx,a,b,win\nx,b,c,win\n",
+        { format: "csv" }
+      )
+    ).toThrow("Row 3: Comparison with id x already exists");
+    expect(ranker.getComparisons()).toHaveLength(0);
+
+    ranker.addComparisonResult({
+      id: "y",
+      itemId1: "a",
+      itemId2: "c",
+      result: "win",
+      timestamp: 0,
+    });
+    ranker.retractComparison("y");
+    expect(() =>
+      importComparisons(
+        ranker,
+        "id,itemId1,itemId2,result\nz,a,b,win\ny,b,c,win\n",
+        { format: "csv" }
+      )
+    ).toThrow("Row 3: Comparison with id y already exists");
+    expect(ranker.getComparisons()).toHaveLength(0);
+  });
+
+  test("should give rows without an id ids that later rows do not use", () => {
+    const count = importComparisons(
+      ranker,
+      "itemId1,itemId2,result,id\na,b,win,\nb,c,win,3\n",
+      { format: "csv" }
+    );
+
+    expect(count).toBe(2);
+    expect(ranker.getComparisons().map((comparison) => comparison.id)).toEqual([
+      "4",
+      "3",
+    ]);
+  });
+
+  test("should export rankings as CSV and JSONL", () => {
+    ranker.addItem('d,"quoted"', undefined, { tags: ["new"] });
+    ranker.addComparisonResult({
+      itemId1: "a",
+      itemId2: "b",
+      result: "win",
+      timestamp: 0,
+    });
+
+    const csv = exportRankings(ranker, { format: "csv", limit: 2 });
+    expect(csv).toBe(
+      "rank,id,rating,comparisons,wins,losses,ties,provisional\n" +
+        "1,a,1516,1,1,0,0,true\n" +
+        "2,c,1500,0,0,0,0,true\n"
+    );
+    const lines = exportRankings(ranker, { format: "jsonl", tags: ["new"] })
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+    expect(lines).toEqual([
+      {
+        rank: 1,
+        id: 'd,"quoted"',
+        rating: 1500,
+        comparisons: 0,
+        wins: 0,
+        losses: 0,
+        ties: 0,
+        provisional: true,
+        tags: ["new"],
+      },
+    ]);
+    expect(parseCsv(exportRankings(ranker, { format: "csv" }))[3][1]).toBe(
+      'd,"quoted"'
+    );
+  });
+
+  test("should export a Markdown leaderboard", () => {
+    const leaderboard = createRanker(["a|b", "c"], {
+      provisionalComparisons: 1,
+    });
+    leaderboard.addComparisonResult({
+      itemId1: "a|b",
+      itemId2: "c",
+      result: "win",
+      timestamp: 0,
+    });
+    leaderboard.addItem("new");
+
+    expect(
+      exportRankings(leaderboard, { format: "markdown", precision: 0 })
+    ).toBe(
+      [
+        "| Rank | Item | Rating | W | L | T |",
+        "| ---: | :--- | ---: | ---: | ---: | ---: |",
+        "| 1 | a\\|b | 1516 | 1 | 0 | 0 |",
+        "| 2 | new\\* | 1500 | 0 | 0 | 0 |",
+        "| 3 | c | 1484 | 0 | 1 | 0 |",
+        "",
+        "\\* Provisional rating",
+        "",
+      ].join("\n")
+    );
+  });
+});
+
+describe("Head-to-Head Tests", () => {
+  let ranker: Ranker;
+
+  beforeEach(() => {
+    ranker = createRanker(["a", "b", "c"]);
+    const record = (
+      itemId1: string,
+      itemId2: string,
+      outcome: Partial<ComparisonResult>
+    ) =>
+      ranker.addComparisonResult({
+        itemId1,
+        itemId2,
+        timestamp: 0,
+        ...outcome,
+      });
+    record("a", "b", { result: "win" });
+    record("b", "a", { result: "win" });
+    record("b", "a", { result: "loss" });
+    record("a", "b", { score: 0.5 });
+    record("b", "c", { grade: "slightly better" });
+  });
+
+  test("should report a pair's record from either side", () => {
+    expect(ranker.getHeadToHead("a", "b")).toMatchObject({
+      itemId1: "a",
+      itemId2: "b",
+      comparisons: 4,
+      wins: 2,
+      losses: 1,
+      ties: 1,
+      score: 0.625,
+    });
+    expect(ranker.getHeadToHead("b", "a")).toMatchObject({
+      wins: 1,
+      losses: 2,
+      score: 0.375,
+    });
+    expect(ranker.getHeadToHead("a", "c")).toMatchObject({
+      comparisons: 0,
+      score: null,
+    });
+  });
+
+  test("should ignore retracted comparisons", () => {
+    ranker.retractComparison(ranker.getComparisons()[0].id);
+
+    expect(ranker.getHeadToHead("a", "b")).toMatchObject({
+      comparisons: 3,
+      wins: 1,
+    });
+  });
+
+  test("should predict win probabilities from the rating model", () => {
+    const rated = new Ranker([], {});
+    rated.addItem("strong", 1700);
+    rated.addItem("weak", 1300);
+
+    expect(rated.getWinProbability("strong", "weak")).toBeCloseTo(10 / 11);
+    expect(rated.getHeadToHead("weak", "strong").winProbability).toBeCloseTo(
+      1 / 11
+    );
+    expect(() => rated.getWinProbability("strong", "strong")).toThrow(
+      "Cannot compare an item with itself"
+    );
+    expect(() => rated.getWinProbability("strong", "nobody")).toThrow(
+      "Item with id nobody not found"
+    );
+  });
+
+  test("should build a pairwise matrix in ranking order", () => {
+    const matrix = ranker.getPairwiseMatrix();
+    const order = ranker.getRankings().map((item) => item.id);
+    const [a, b, c] = ["a", "b", "c"].map((id) => order.indexOf(id));
+
+    expect(matrix.items).toEqual(order);
+    expect(matrix.wins[a][b]).toBe(2);
+    expect(matrix.losses[a][b]).toBe(1);
+    expect(matrix.ties[b][a]).toBe(1);
+    expect(matrix.wins[b][c]).toBe(1);
+    expect(matrix.losses[c][b]).toBe(1);
+    expect(matrix.winProbabilities[a][a]).toBe(0.5);
+    expect(
+      matrix.winProbabilities[a][c] + matrix.winProbabilities[c][a]
+    ).toBeCloseTo(1);
+    expect(matrix.winProbabilities[b][c]).toBeCloseTo(
+      ranker.getWinProbability("b", "c")
+    );
+    expect(
+      ranker.getPairwiseMatrix({ filter: (i) => i.id !== "c" }).items
+    ).toHaveLength(2);
+  });
+});